@@ -1,8 +1,17 @@
-module.exports = {
+export default {
   preset: 'ts-jest',
   testEnvironment: 'node',
   roots: ['<rootDir>/tests'],
+  resolver: '<rootDir>/tests/esmResolver.cjs',
+  transform: {
+    '^.+\\.ts$': 'ts-jest',
+    // ESM-only IPFS packages are compiled to CommonJS for jest
+    '^.+\\.js$': ['babel-jest', { plugins: ['@babel/plugin-transform-modules-commonjs'] }]
+  },
+  transformIgnorePatterns: [
+    '/node_modules/(?!(multiformats|@ipld|ipfs-unixfs|protons-runtime|uint8arraylist|uint8-varint|blockstore-[a-z]+|interface-[a-z]+|it-[a-z-]+|@libp2p|uint8arrays|progress-events|p-defer|weald|supports-color|has-flag)/)'
+  ],
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1'
   }
-}; 
\ No newline at end of file
+};
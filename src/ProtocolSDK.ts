@@ -14,6 +14,15 @@ import { TransactionQueue, QueueStatus } from './utils/transactionQueue';
 import { SDKConfig, NetworkConfig } from './config/types';
 import { ProtocolError, ErrorType } from './utils/errors';
 import { NetworkMonitor } from './utils/networkMonitor';
+import { MulticallBatcher } from './utils/multicallBatcher';
+import { EventIndexer, type EventIndexerOptions } from './utils/eventIndexer';
+import { DeedHistoryReader } from './utils/deedHistory';
+import { IPFSClient } from './utils/ipfs';
+import { ValidatorManager } from './utils/validators';
+import { AgreementService } from './utils/agreements';
+import { FeeManager, type FeeEstimate, type FeeSpeed } from './utils/fees';
+import type { DeedHistoryEntry, DeedHistoryOptions } from './types/history';
+import { type ContractOptions } from './contracts/BaseContract';
 
 // Only export the SDK class and creation function
 export { ProtocolSDK as default } from './ProtocolSDK';
@@ -30,34 +39,47 @@ export class ProtocolSDK {
   public readonly transactions: TransactionManager;
   public readonly errorHandler: ErrorHandler;
   public readonly txQueue: TransactionQueue;
+  public readonly ipfs: IPFSClient;
+  public readonly agreements: AgreementService;
+  public readonly fees: FeeManager;
   
   public deedNFT!: DeedNFTContract;
   public subdivide!: SubdivideContract;
   public fractionalize!: FractionalizeContract;
   public validatorRegistry!: ValidatorRegistryContract;
   public fundManager!: FundManagerContract;
+  public validators!: ValidatorManager;
 
   private publicClient: PublicClient;
   private network: NetworkConfig;
   private walletClient: WalletClient | null = null;
+  private contractOptions: ContractOptions;
 
   private constructor(config: SDKConfig) {
     this.validateConfig(config);
     
     this.publicClient = config.publicClient;
     this.network = config.network;
+    this.fees = new FeeManager(this.publicClient, this.network.gasPolicy);
+    this.errorHandler = new ErrorHandler(this.publicClient, config.errorHandling, this.fees);
+    this.events = new EventManager(this.publicClient, this.network.contracts, config.retry?.events);
+    this.contractOptions = this.createContractOptions(config);
     
-    // Initialize wallet manager with AppKit
+    // Initialize wallet manager; signs through AppKit unless walletConfig.signer is set
     this.wallet = new WalletManager({
       ...config.walletConfig,
       network: this.network,
       supportedChainIds: [this.network.chainId] // Ensure network chainId is supported
     });
     
-    this.transactions = new TransactionManager(this.publicClient);
-    this.errorHandler = new ErrorHandler(this.publicClient);
-    this.txQueue = new TransactionQueue();
-    this.events = new EventManager(this.publicClient);
+    this.transactions = new TransactionManager(this.publicClient, this.walletClient);
+    this.txQueue = new TransactionQueue(this.publicClient, this.walletClient, config.txQueue);
+    this.ipfs = new IPFSClient({ retry: config.retry?.ipfs, ...config.ipfs });
+    // Validator contracts come from sdk.validators once contracts exist
+    this.agreements = new AgreementService(
+      this.ipfs,
+      validator => this.validators.getValidator(validator)
+    );
     
     this.setupNetworkMonitoring();
   }
@@ -85,42 +107,125 @@ export class ProtocolSDK {
     }
   }
 
-  private async initializeContracts() {
-    const { walletClient } = await this.wallet.connect();
-    this.walletClient = walletClient;
+  private createContractOptions(config: SDKConfig): ContractOptions {
+    const multicallAddress = this.network.multicallAddress;
+    const multicall = config.batch?.multicall;
+    if (!multicall) {
+      return {
+        multicallAddress,
+        fees: this.fees,
+        errorHandler: this.errorHandler,
+        retry: config.retry,
+        events: this.events
+      };
+    }
 
+    const batcher = new MulticallBatcher(this.publicClient, {
+      multicallAddress,
+      ...(typeof multicall === 'object' ? multicall : {})
+    });
+    return {
+      batcher,
+      multicallAddress,
+      fees: this.fees,
+      errorHandler: this.errorHandler,
+      retry: config.retry,
+      events: this.events
+    };
+  }
+
+  private initializeContracts() {
     this.deedNFT = new DeedNFTContract(
       this.publicClient,
       this.walletClient,
-      this.network.contracts.deedNFT
+      this.network.contracts.deedNFT,
+      { ...this.contractOptions, ipfsClient: this.ipfs, agreements: this.agreements }
     );
     
     this.subdivide = new SubdivideContract(
       this.publicClient,
       this.walletClient,
       this.network.contracts.subdivide,
-      this.deedNFT
+      this.deedNFT,
+      this.contractOptions
     );
     
     this.fractionalize = new FractionalizeContract(
       this.publicClient,
       this.walletClient,
-      this.network.contracts.fractionalize
+      this.network.contracts.fractionalize,
+      this.contractOptions
     );
     
     this.validatorRegistry = new ValidatorRegistryContract(
       this.publicClient,
       this.walletClient,
-      this.network.contracts.validatorRegistry
+      this.network.contracts.validatorRegistry,
+      this.contractOptions
     );
     
     this.fundManager = new FundManagerContract(
       this.publicClient,
       this.walletClient,
-      this.network.contracts.fundManager
+      this.network.contracts.fundManager,
+      this.contractOptions
+    );
+
+    this.validators = new ValidatorManager(
+      this.publicClient,
+      this.walletClient,
+      this.events,
+      this.deedNFT,
+      this.validatorRegistry,
+      this.contractOptions
     );
   }
 
+  private getContracts() {
+    return [
+      this.deedNFT,
+      this.subdivide,
+      this.fractionalize,
+      this.validatorRegistry,
+      this.fundManager
+    ];
+  }
+
+  /**
+   * Connects the configured wallet and attaches it to every contract.
+   */
+  async connectWallet(): Promise<WalletClient> {
+    const { walletClient } = await this.wallet.connect();
+    this.attachWallet(walletClient);
+    return walletClient;
+  }
+
+  /**
+   * Attaches an already connected wallet client, leaving read-only mode.
+   */
+  attachWallet(walletClient: WalletClient): void {
+    this.walletClient = walletClient;
+    this.getContracts().forEach(contract => contract.setWalletClient(walletClient));
+    this.validators.setWalletClient(walletClient);
+    this.transactions.setWalletClient(walletClient);
+    this.txQueue.setWalletClient(walletClient);
+  }
+
+  /**
+   * Detaches the wallet; contracts keep serving reads.
+   */
+  detachWallet(): void {
+    this.walletClient = null;
+    this.getContracts().forEach(contract => contract.setWalletClient(null));
+    this.validators.setWalletClient(null);
+    this.transactions.setWalletClient(null);
+    this.txQueue.setWalletClient(null);
+  }
+
+  isReadOnly(): boolean {
+    return !this.walletClient;
+  }
+
   private setupNetworkMonitoring(): void {
     const monitor = new NetworkMonitor(this.publicClient, this.network)
     
@@ -134,6 +239,9 @@ export class ProtocolSDK {
   }
 
   private async validateNetwork(chainId: number): Promise<void> {
+    // Nothing to switch without a wallet
+    if (this.isReadOnly()) return
+
     if (chainId !== this.network.chainId) {
       await this.switchNetwork(this.network.chainId)
     }
@@ -141,7 +249,12 @@ export class ProtocolSDK {
 
   public static async create(config: SDKConfig): Promise<ProtocolSDK> {
     const sdk = new ProtocolSDK(config)
-    await sdk.initializeContracts()
+    sdk.initializeContracts()
+    if (!config.readOnly) {
+      await sdk.connectWallet()
+    }
+    // Resume operations saved by a previous session
+    await sdk.txQueue.restore()
     return sdk
   }
 
@@ -168,10 +281,36 @@ export class ProtocolSDK {
     }
   }
 
+  /**
+   * Creates a chunked, resumable historical indexer over this SDK's events.
+   */
+  createEventIndexer(options?: EventIndexerOptions): EventIndexer {
+    return new EventIndexer(this.events, this.publicClient, options);
+  }
+
+  /**
+   * Chronological life history of a deed across all protocol contracts.
+   */
+  async getDeedHistory(
+    tokenId: bigint,
+    options?: DeedHistoryOptions
+  ): Promise<DeedHistoryEntry[]> {
+    const reader = new DeedHistoryReader(this.events, this.publicClient, this.network.contracts);
+    return reader.getDeedHistory(tokenId, options);
+  }
+
   async getGasPrice(): Promise<bigint> {
     return this.transactions.getGasPrice();
   }
 
+  /**
+   * Slow, standard and fast fees under this network's gas policy, with the
+   * worst-case cost of a transaction using `gas` units.
+   */
+  async getFeeEstimates(gas?: bigint): Promise<Record<FeeSpeed, FeeEstimate>> {
+    return this.fees.getFeeEstimates(gas);
+  }
+
   getPendingTransactions(): QueueStatus {
     return this.txQueue.getQueueStatus();
   }
@@ -179,9 +318,11 @@ export class ProtocolSDK {
   // Cleanup method
   destroy() {
     this.events.removeAllListeners();
-    this.txQueue.clear();
+    this.transactions.cleanup();
+    this.txQueue.stop();
+    void this.ipfs.dispose();
   }
 }
 
-export type { SDKConfig } from './types/sdk'
+export type { SDKConfig } from './config/types'
 export type { QueueStatus } from './utils/transactionQueue'
@@ -39,7 +39,87 @@ export default [
     outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
     stateMutability: "view",
     type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "owner", type: "address" },
+      { internalType: "uint8", name: "assetType", type: "uint8" },
+      { internalType: "string", name: "ipfsDetailsHash", type: "string" },
+      { internalType: "string", name: "operatingAgreement", type: "string" },
+      { internalType: "string", name: "definition", type: "string" },
+      { internalType: "string", name: "configuration", type: "string" }
+    ],
+    name: "mintAsset",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "deedId", type: "uint256" }],
+    name: "getDeedInfo",
+    outputs: [
+      { internalType: "uint8", name: "assetType", type: "uint8" },
+      { internalType: "bool", name: "isValidated", type: "bool" },
+      { internalType: "string", name: "operatingAgreement", type: "string" },
+      { internalType: "string", name: "definition", type: "string" },
+      { internalType: "string", name: "configuration", type: "string" },
+      { internalType: "address", name: "validator", type: "address" }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "deedId", type: "uint256" }],
+    name: "canSubdivide",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
+    name: "getApproved",
+    outputs: [{ internalType: "address", name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "from", type: "address" },
+      { internalType: "address", name: "to", type: "address" },
+      { internalType: "uint256", name: "tokenId", type: "uint256" }
+    ],
+    name: "transferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "deedId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "owner", type: "address" },
+      { indexed: false, internalType: "uint256", name: "assetType", type: "uint256" }
+    ],
+    name: "DeedCreated",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "deedId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "validator", type: "address" }
+    ],
+    name: "DeedValidated",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "from", type: "address" },
+      { indexed: true, internalType: "address", name: "to", type: "address" },
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" }
+    ],
+    name: "Transfer",
+    type: "event"
   }
-] as const
-
-// Create similar files for other contracts 
\ No newline at end of file
+] as const 
\ No newline at end of file
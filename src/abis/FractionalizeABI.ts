@@ -1,4 +1,139 @@
+const FractionInfoComponents = [
+  { internalType: "string", name: "name", type: "string" },
+  { internalType: "string", name: "description", type: "string" },
+  { internalType: "string", name: "symbol", type: "string" },
+  { internalType: "string", name: "collectionUri", type: "string" },
+  { internalType: "uint256", name: "totalShares", type: "uint256" },
+  { internalType: "uint256", name: "activeShares", type: "uint256" },
+  { internalType: "uint256", name: "maxSharesPerWallet", type: "uint256" },
+  { internalType: "uint256", name: "requiredApprovalPercentage", type: "uint256" },
+  { internalType: "bool", name: "isActive", type: "bool" },
+  { internalType: "bool", name: "burnable", type: "bool" },
+  { internalType: "uint8", name: "assetType", type: "uint8" },
+  { internalType: "uint256", name: "originalTokenId", type: "uint256" },
+  { internalType: "address", name: "collectionAdmin", type: "address" }
+] as const
+
 export default [
+  {
+    inputs: [
+      { internalType: "uint8", name: "assetType", type: "uint8" },
+      { internalType: "uint256", name: "originalTokenId", type: "uint256" },
+      { internalType: "string", name: "name", type: "string" },
+      { internalType: "string", name: "symbol", type: "string" },
+      { internalType: "string", name: "description", type: "string" },
+      { internalType: "uint256", name: "totalShares", type: "uint256" },
+      { internalType: "uint256", name: "maxSharesPerWallet", type: "uint256" }
+    ],
+    name: "createFraction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "fractionId", type: "uint256" }],
+    name: "getFractionInfo",
+    outputs: [
+      {
+        components: FractionInfoComponents,
+        internalType: "struct Fractionalize.FractionInfo",
+        name: "",
+        type: "tuple"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "fractionId", type: "uint256" },
+      { internalType: "address", name: "account", type: "address" }
+    ],
+    name: "canReceiveShares",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "fractionId", type: "uint256" },
+      { internalType: "address", name: "account", type: "address" }
+    ],
+    name: "getVotingPower",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "fractionId", type: "uint256" },
+      { internalType: "address", name: "account", type: "address" }
+    ],
+    name: "balanceOf",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "fractionId", type: "uint256" },
+      { internalType: "uint256", name: "amount", type: "uint256" },
+      { internalType: "address", name: "to", type: "address" }
+    ],
+    name: "mintShares",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "fractionId", type: "uint256" },
+      { internalType: "uint256[]", name: "amounts", type: "uint256[]" },
+      { internalType: "address[]", name: "recipients", type: "address[]" }
+    ],
+    name: "batchMintShares",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "fractionId", type: "uint256" },
+      { internalType: "address", name: "to", type: "address" },
+      { internalType: "uint256", name: "amount", type: "uint256" }
+    ],
+    name: "transferShares",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "fractionId", type: "uint256" },
+      { internalType: "uint256", name: "amount", type: "uint256" }
+    ],
+    name: "burnShares",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "fractionId", type: "uint256" }],
+    name: "approveUnlock",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "fractionId", type: "uint256" },
+      { internalType: "address", name: "to", type: "address" }
+    ],
+    name: "unlockAsset",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
   {
     inputs: [
       { internalType: "uint256", name: "tokenId", type: "uint256" },
@@ -15,5 +150,65 @@ export default [
     outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
     stateMutability: "view",
     type: "function"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "fractionId", type: "uint256" },
+      { indexed: false, internalType: "uint256", name: "assetType", type: "uint256" },
+      { indexed: false, internalType: "uint256", name: "originalTokenId", type: "uint256" }
+    ],
+    name: "FractionCreated",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "fractionId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "from", type: "address" },
+      { indexed: true, internalType: "address", name: "to", type: "address" },
+      { indexed: false, internalType: "uint256", name: "amount", type: "uint256" }
+    ],
+    name: "SharesTransferred",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "fractionId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "to", type: "address" },
+      { indexed: false, internalType: "uint256", name: "amount", type: "uint256" }
+    ],
+    name: "SharesMinted",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "fractionId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "from", type: "address" },
+      { indexed: false, internalType: "uint256", name: "amount", type: "uint256" }
+    ],
+    name: "SharesBurned",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "fractionId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "approver", type: "address" }
+    ],
+    name: "UnlockApproved",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "fractionId", type: "uint256" },
+      { indexed: false, internalType: "uint256", name: "assetType", type: "uint256" },
+      { indexed: false, internalType: "uint256", name: "originalTokenId", type: "uint256" }
+    ],
+    name: "AssetUnlocked",
+    type: "event"
   }
-] as const 
\ No newline at end of file
+] as const
@@ -1,29 +1,106 @@
 export default [
   {
     inputs: [
-      { internalType: "uint256", name: "tokenId", type: "uint256" },
-      { internalType: "uint256", name: "amount", type: "uint256" }
+      { internalType: "uint8", name: "assetType", type: "uint8" },
+      { internalType: "string", name: "ipfsDetailsHash", type: "string" },
+      { internalType: "string", name: "operatingAgreement", type: "string" },
+      { internalType: "string", name: "definition", type: "string" },
+      { internalType: "string", name: "configuration", type: "string" },
+      { internalType: "address", name: "validatorContract", type: "address" },
+      { internalType: "address", name: "token", type: "address" },
+      { internalType: "string", name: "ipfsTokenURI", type: "string" }
     ],
-    name: "deposit",
-    outputs: [],
-    stateMutability: "payable",
+    name: "mintDeedNFT",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "nonpayable",
     type: "function"
   },
   {
-    inputs: [
-      { internalType: "uint256", name: "tokenId", type: "uint256" },
-      { internalType: "uint256", name: "amount", type: "uint256" }
-    ],
-    name: "withdraw",
+    inputs: [{ internalType: "address", name: "token", type: "address" }],
+    name: "getServiceFee",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "address", name: "token", type: "address" }],
+    name: "getServiceFeesBalance",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "address", name: "token", type: "address" }],
+    name: "withdrawServiceFees",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function"
   },
   {
-    inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
-    name: "getBalance",
-    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    inputs: [{ internalType: "address", name: "token", type: "address" }],
+    name: "isTokenWhitelisted",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "getWhitelistedTokens",
+    outputs: [{ internalType: "address[]", name: "", type: "address[]" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "feeReceiver",
+    outputs: [{ internalType: "address", name: "", type: "address" }],
     stateMutability: "view",
     type: "function"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "deedId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "minter", type: "address" },
+      { indexed: true, internalType: "address", name: "token", type: "address" },
+      { indexed: false, internalType: "uint256", name: "serviceFee", type: "uint256" }
+    ],
+    name: "DeedMinted",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "recipient", type: "address" },
+      { indexed: true, internalType: "address", name: "token", type: "address" },
+      { indexed: false, internalType: "uint256", name: "amount", type: "uint256" }
+    ],
+    name: "ServiceFeesWithdrawn",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "token", type: "address" },
+      { indexed: false, internalType: "uint256", name: "newServiceFee", type: "uint256" }
+    ],
+    name: "ServiceFeeUpdated",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "token", type: "address" }
+    ],
+    name: "TokenWhitelisted",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "token", type: "address" }
+    ],
+    name: "TokenRemovedFromWhitelist",
+    type: "event"
   }
-] as const 
\ No newline at end of file
+] as const
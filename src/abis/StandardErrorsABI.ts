@@ -0,0 +1,118 @@
+// OpenZeppelin v5 custom errors the protocol contracts inherit. Reverts are
+// decoded against a contract's own ABI first, then against these
+export default [
+  {
+    inputs: [
+      { internalType: "address", name: "account", type: "address" },
+      { internalType: "bytes32", name: "neededRole", type: "bytes32" }
+    ],
+    name: "AccessControlUnauthorizedAccount",
+    type: "error"
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "account", type: "address" }
+    ],
+    name: "OwnableUnauthorizedAccount",
+    type: "error"
+  },
+  {
+    inputs: [],
+    name: "EnforcedPause",
+    type: "error"
+  },
+  {
+    inputs: [],
+    name: "ReentrancyGuardReentrantCall",
+    type: "error"
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "sender", type: "address" },
+      { internalType: "uint256", name: "balance", type: "uint256" },
+      { internalType: "uint256", name: "needed", type: "uint256" }
+    ],
+    name: "ERC20InsufficientBalance",
+    type: "error"
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "spender", type: "address" },
+      { internalType: "uint256", name: "allowance", type: "uint256" },
+      { internalType: "uint256", name: "needed", type: "uint256" }
+    ],
+    name: "ERC20InsufficientAllowance",
+    type: "error"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "deadline", type: "uint256" }
+    ],
+    name: "ERC2612ExpiredSignature",
+    type: "error"
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "signer", type: "address" },
+      { internalType: "address", name: "owner", type: "address" }
+    ],
+    name: "ERC2612InvalidSigner",
+    type: "error"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "tokenId", type: "uint256" }
+    ],
+    name: "ERC721NonexistentToken",
+    type: "error"
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "sender", type: "address" },
+      { internalType: "uint256", name: "tokenId", type: "uint256" },
+      { internalType: "address", name: "owner", type: "address" }
+    ],
+    name: "ERC721IncorrectOwner",
+    type: "error"
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "operator", type: "address" },
+      { internalType: "uint256", name: "tokenId", type: "uint256" }
+    ],
+    name: "ERC721InsufficientApproval",
+    type: "error"
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "receiver", type: "address" }
+    ],
+    name: "ERC721InvalidReceiver",
+    type: "error"
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "sender", type: "address" },
+      { internalType: "uint256", name: "balance", type: "uint256" },
+      { internalType: "uint256", name: "needed", type: "uint256" },
+      { internalType: "uint256", name: "tokenId", type: "uint256" }
+    ],
+    name: "ERC1155InsufficientBalance",
+    type: "error"
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "operator", type: "address" },
+      { internalType: "address", name: "owner", type: "address" }
+    ],
+    name: "ERC1155MissingApprovalForAll",
+    type: "error"
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "receiver", type: "address" }
+    ],
+    name: "ERC1155InvalidReceiver",
+    type: "error"
+  }
+] as const
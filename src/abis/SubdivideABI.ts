@@ -1,7 +1,74 @@
+const SubdivisionInfoComponents = [
+  { internalType: "string", name: "name", type: "string" },
+  { internalType: "string", name: "description", type: "string" },
+  { internalType: "string", name: "symbol", type: "string" },
+  { internalType: "string", name: "collectionUri", type: "string" },
+  { internalType: "uint256", name: "totalUnits", type: "uint256" },
+  { internalType: "uint256", name: "activeUnits", type: "uint256" },
+  { internalType: "bool", name: "isActive", type: "bool" },
+  { internalType: "bool", name: "burnable", type: "bool" },
+  { internalType: "address", name: "collectionAdmin", type: "address" }
+] as const
+
 export default [
   {
-    // Add your Subdivide contract ABI here
-    // This should match your deployed contract's ABI
+    inputs: [
+      { internalType: "uint256", name: "deedId", type: "uint256" },
+      { internalType: "string", name: "name", type: "string" },
+      { internalType: "string", name: "description", type: "string" },
+      { internalType: "string", name: "symbol", type: "string" },
+      { internalType: "string", name: "collectionUri", type: "string" },
+      { internalType: "uint256", name: "totalUnits", type: "uint256" },
+      { internalType: "bool", name: "burnable", type: "bool" }
+    ],
+    name: "createSubdivision",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "deedId", type: "uint256" },
+      { internalType: "uint256[]", name: "unitIds", type: "uint256[]" },
+      { internalType: "address[]", name: "recipients", type: "address[]" }
+    ],
+    name: "batchMintUnits",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "deedId", type: "uint256" }],
+    name: "getSubdivisionInfo",
+    outputs: [
+      {
+        components: SubdivisionInfoComponents,
+        internalType: "struct Subdivide.SubdivisionInfo",
+        name: "",
+        type: "tuple"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "deedId", type: "uint256" },
+      { internalType: "uint256", name: "unitId", type: "uint256" }
+    ],
+    name: "burnUnit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "deedId", type: "uint256" }],
+    name: "deactivateSubdivision",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
     inputs: [
       { internalType: "uint256", name: "tokenId", type: "uint256" },
       { internalType: "uint256", name: "parts", type: "uint256" }
@@ -18,5 +85,136 @@ export default [
     stateMutability: "view",
     type: "function"
   },
-  // Add other ABI entries...
-] as const 
\ No newline at end of file
+  {
+    inputs: [
+      { internalType: "uint256", name: "deedId", type: "uint256" },
+      { internalType: "uint256", name: "unitId", type: "uint256" }
+    ],
+    name: "ownerOfUnit",
+    outputs: [{ internalType: "address", name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "account", type: "address" },
+      { internalType: "uint256", name: "id", type: "uint256" }
+    ],
+    name: "balanceOf",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "id", type: "uint256" }],
+    name: "uri",
+    outputs: [{ internalType: "string", name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "from", type: "address" },
+      { internalType: "address", name: "to", type: "address" },
+      { internalType: "uint256", name: "id", type: "uint256" },
+      { internalType: "uint256", name: "amount", type: "uint256" },
+      { internalType: "bytes", name: "data", type: "bytes" }
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "operator", type: "address" },
+      { internalType: "bool", name: "approved", type: "bool" }
+    ],
+    name: "setApprovalForAll",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "account", type: "address" },
+      { internalType: "address", name: "operator", type: "address" }
+    ],
+    name: "isApprovedForAll",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "deedId", type: "uint256" },
+      { indexed: false, internalType: "string", name: "name", type: "string" },
+      { indexed: false, internalType: "uint256", name: "totalUnits", type: "uint256" }
+    ],
+    name: "SubdivisionCreated",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "deedId", type: "uint256" },
+      { indexed: true, internalType: "uint256", name: "unitId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "recipient", type: "address" }
+    ],
+    name: "UnitMinted",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "deedId", type: "uint256" },
+      { indexed: true, internalType: "uint256", name: "unitId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "burner", type: "address" }
+    ],
+    name: "UnitBurned",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "deedId", type: "uint256" }
+    ],
+    name: "SubdivisionDeactivated",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "deedId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "previousAdmin", type: "address" },
+      { indexed: true, internalType: "address", name: "newAdmin", type: "address" }
+    ],
+    name: "CollectionAdminTransferred",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "operator", type: "address" },
+      { indexed: true, internalType: "address", name: "from", type: "address" },
+      { indexed: true, internalType: "address", name: "to", type: "address" },
+      { indexed: false, internalType: "uint256", name: "id", type: "uint256" },
+      { indexed: false, internalType: "uint256", name: "value", type: "uint256" }
+    ],
+    name: "TransferSingle",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "operator", type: "address" },
+      { indexed: true, internalType: "address", name: "from", type: "address" },
+      { indexed: true, internalType: "address", name: "to", type: "address" },
+      { indexed: false, internalType: "uint256[]", name: "ids", type: "uint256[]" },
+      { indexed: false, internalType: "uint256[]", name: "values", type: "uint256[]" }
+    ],
+    name: "TransferBatch",
+    type: "event"
+  }
+] as const
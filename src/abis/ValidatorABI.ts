@@ -1,16 +1,38 @@
+// From IValidator.sol
 export default [
   {
-    inputs: [{ internalType: "address", name: "validator", type: "address" }],
-    name: "registerValidator",
-    outputs: [],
-    stateMutability: "nonpayable",
+    inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
+    name: "tokenURI",
+    outputs: [{ internalType: "string", name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "defaultOperatingAgreement",
+    outputs: [{ internalType: "string", name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "string", name: "uri", type: "string" }],
+    name: "operatingAgreementName",
+    outputs: [{ internalType: "string", name: "", type: "string" }],
+    stateMutability: "view",
     type: "function"
   },
   {
-    inputs: [{ internalType: "address", name: "validator", type: "address" }],
-    name: "isValidator",
+    inputs: [{ internalType: "uint256", name: "assetTypeId", type: "uint256" }],
+    name: "supportsAssetType",
     outputs: [{ internalType: "bool", name: "", type: "bool" }],
     stateMutability: "view",
     type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "deedId", type: "uint256" }],
+    name: "validateDeed",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
   }
-] as const 
\ No newline at end of file
+] as const
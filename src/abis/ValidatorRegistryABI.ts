@@ -1,16 +1,112 @@
+const ValidatorInfoComponents = [
+  { internalType: "bool", name: "isActive", type: "bool" },
+  { internalType: "uint256[]", name: "supportedAssetTypes", type: "uint256[]" },
+  { internalType: "string", name: "name", type: "string" },
+  { internalType: "string", name: "description", type: "string" }
+] as const
+
 export default [
   {
-    inputs: [{ internalType: "address", name: "validator", type: "address" }],
+    inputs: [
+      { internalType: "string", name: "name", type: "string" },
+      { internalType: "string", name: "description", type: "string" },
+      { internalType: "uint256[]", name: "supportedAssetTypes", type: "uint256[]" },
+      { internalType: "string", name: "uri", type: "string" }
+    ],
     name: "registerValidator",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function"
   },
+  {
+    inputs: [{ internalType: "address", name: "validator", type: "address" }],
+    name: "getValidatorInfo",
+    outputs: [
+      {
+        components: ValidatorInfoComponents,
+        internalType: "struct IValidatorRegistry.ValidatorInfo",
+        name: "",
+        type: "tuple"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "validator", type: "address" },
+      { internalType: "bool", name: "isActive", type: "bool" }
+    ],
+    name: "updateValidatorStatus",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "validator", type: "address" },
+      { internalType: "uint256", name: "assetType", type: "uint256" }
+    ],
+    name: "isValidatorApproved",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "assetType", type: "uint256" }],
+    name: "getValidatorsForAssetType",
+    outputs: [{ internalType: "address[]", name: "", type: "address[]" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "deedId", type: "uint256" },
+      { internalType: "address", name: "validator", type: "address" }
+    ],
+    name: "validate",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "address", name: "validatorContract", type: "address" }],
+    name: "getValidatorOwner",
+    outputs: [{ internalType: "address", name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "address", name: "validator", type: "address" }],
+    name: "isValidatorActive",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function"
+  },
   {
     inputs: [{ internalType: "address", name: "validator", type: "address" }],
     name: "isValidator",
     outputs: [{ internalType: "bool", name: "", type: "bool" }],
     stateMutability: "view",
     type: "function"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "validator", type: "address" },
+      { indexed: false, internalType: "string", name: "name", type: "string" },
+      { indexed: false, internalType: "uint256[]", name: "assetTypes", type: "uint256[]" }
+    ],
+    name: "ValidatorRegistered",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "validator", type: "address" },
+      { indexed: false, internalType: "bool", name: "isActive", type: "bool" }
+    ],
+    name: "ValidatorStatusUpdated",
+    type: "event"
   }
-] as const 
\ No newline at end of file
+] as const
@@ -23,21 +23,6 @@ export const DEFAULT_TIMEOUT = 60000;
 export const DEFAULT_CONFIRMATIONS = 1;
 export const GAS_PRICE_INCREASE_FACTOR = 1.2;
 
-export const ERROR_MESSAGES = {
-  INVALID_PROVIDER: 'Invalid provider configuration',
-  CONTRACT_NOT_FOUND: 'Contract not found at address',
-  UNAUTHORIZED: 'Unauthorized operation',
-  VALIDATION_FAILED: 'Validation failed'
-} as const;
-
-export const ERROR_CODES = {
-  CONTRACT_ERROR: 'CONTRACT_ERROR',
-  VALIDATION_ERROR: 'VALIDATION_ERROR',
-  NETWORK_ERROR: 'NETWORK_ERROR',
-  TRANSACTION_ERROR: 'TRANSACTION_ERROR',
-  WALLET_CONNECTION: 'WALLET_CONNECTION',
-  CONTRACT_INTERACTION: 'CONTRACT_INTERACTION',
-  TRANSACTION_FAILED: 'TRANSACTION_FAILED',
-  NETWORK_MISMATCH: 'NETWORK_MISMATCH',
-  INVALID_CONFIG: 'INVALID_CONFIG'
-} as const 
\ No newline at end of file
+// Multicall3 is deployed at the same address on every supported chain
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11' as const;
+export const MULTICALL_BATCH_SIZE = 500;
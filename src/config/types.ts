@@ -1,4 +1,11 @@
 import { type PublicClient, type Address } from 'viem'
+import type { SignerAdapter } from '../utils/signers'
+import type { MulticallBatcherOptions } from '../utils/multicallBatcher'
+import type { IPFSClientConfig } from '../utils/ipfs'
+import type { TransactionQueueOptions } from '../utils/transactionQueue'
+import type { GasPolicy } from '../utils/fees'
+import type { ErrorHandlerOptions } from '../utils/errorHandler'
+import type { RetryPolicies } from '../utils/retry'
 
 export interface ContractAddresses {
   deedNFT: Address
@@ -13,16 +20,38 @@ export interface NetworkConfig {
   chainId: number
   rpcUrl: string
   contracts: ContractAddresses
+  // Defaults to the canonical Multicall3 deployment
+  multicallAddress?: Address
+  // Fee presets, caps and overrides for transactions on this network
+  gasPolicy?: GasPolicy
 }
 
 export interface WalletConfig {
   walletConnectProjectId?: string
   fallbackRpcUrl?: string
   supportedChainIds?: number[]
+  // Defaults to AppKit/WalletConnect when omitted
+  signer?: SignerAdapter
 }
 
 export interface SDKConfig {
   publicClient: PublicClient
   network: NetworkConfig
   walletConfig?: WalletConfig
+  // Skip wallet connection on create; contracts only read until a wallet is attached
+  readOnly?: boolean
+  batch?: BatchConfig
+  // Storage backend for deed documents; defaults to an in-memory Helia node
+  ipfs?: IPFSClientConfig
+  // Persistence and retry settings for sdk.txQueue
+  txQueue?: TransactionQueueOptions
+  // Opt-in recovery of nonce conflicts, underpriced sends and flaky reads
+  errorHandling?: ErrorHandlerOptions
+  // Retry policies for contract reads, pre-send simulations, IPFS and event queries
+  retry?: RetryPolicies
+}
+
+export interface BatchConfig {
+  // Combine contract reads issued in the same tick into Multicall3 calls
+  multicall?: boolean | MulticallBatcherOptions
 } 
\ No newline at end of file
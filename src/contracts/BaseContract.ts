@@ -6,18 +6,85 @@ import {
   type TransactionReceipt,
   type Abi,
   type GetContractReturnType,
-  getContract
+  type Account,
+  type Log,
+  getContract,
+  parseEventLogs,
+  BaseError,
+  ContractFunctionRevertedError,
+  ExecutionRevertedError
 } from 'viem'
-import { ProtocolError, ErrorType } from '../utils/errors'
+import { ProtocolError, ErrorType, decodeContractError } from '../utils/errors'
+import { MULTICALL3_ADDRESS, MULTICALL_BATCH_SIZE } from '../config/constants'
+import {
+  type MulticallResult,
+  type DryRun,
+  type DryRunReport,
+  type DecodedEvent,
+  type RevertReason
+} from '../types/contracts'
+import { type MulticallBatcher } from '../utils/multicallBatcher'
+import { type FeeManager, type FeeValues, type TransactionOverrides } from '../utils/fees'
+import { EventManager, PROTOCOL_EVENT_ABIS } from '../utils/events'
+import { EventIndexer } from '../utils/eventIndexer'
+import { type ErrorHandler, type RecoveryOverrides } from '../utils/errorHandler'
+import { retry, getRetryPolicy, type RetryPolicies } from '../utils/retry'
+
+export interface ContractOptions {
+  // Routes executeCall reads through a shared Multicall3 batcher
+  batcher?: MulticallBatcher
+  multicallAddress?: Address
+  // Prices transactions; without it the wallet picks the fees
+  fees?: FeeManager
+  // Recovers failed sends and reads when its recovery mode is on
+  errorHandler?: ErrorHandler
+  // Retry policies for reads and for the simulation before each write
+  retry?: RetryPolicies
+  // Reads past logs; without it one is built from retry.events
+  events?: EventManager
+}
+
+// Thrown by executeTransaction in a dry-run view to hand the report back
+// to dryRun() without sending anything
+class DryRunCapture {
+  constructor(public report: DryRunReport) {}
+}
+
+// Events from every protocol contract, so calls that touch several of them
+// decode fully
+const PROTOCOL_EVENTS: Abi = Object.values(PROTOCOL_EVENT_ABIS)
+  .flat()
+  .filter(item => item.type === 'event')
+
+function isRevert(error: unknown): error is BaseError {
+  return error instanceof BaseError && error.walk(cause =>
+    cause instanceof ContractFunctionRevertedError || cause instanceof ExecutionRevertedError
+  ) !== null
+}
+
+function decodeRevert(error: BaseError, abi: Abi): RevertReason {
+  const decoded = decodeContractError(error, abi)
+  return {
+    reason: decoded?.details.reason ?? error.shortMessage,
+    type: decoded?.type,
+    errorName: decoded?.details.errorName,
+    args: decoded?.details.args,
+    data: decoded?.details.data
+  }
+}
 
 export abstract class BaseContract {
   protected contract!: GetContractReturnType<Abi>
+  protected overrides: TransactionOverrides = {}
+  protected retryPolicies: RetryPolicies = {}
+  protected dryRunning = false
 
   constructor(
     protected publicClient: PublicClient,
-    protected walletClient: WalletClient,
+    protected walletClient: WalletClient | null,
     protected address: Address,
-    protected abi: Abi
+    protected abi: Abi,
+    protected options: ContractOptions = {}
   ) {
     this.contract = getContract({
       address: this.address,
@@ -26,48 +93,359 @@ export abstract class BaseContract {
     }) as GetContractReturnType<Abi>
   }
 
+  /**
+   * Attaches (or detaches) the wallet used for signing. Contracts built
+   * without one are read-only until a wallet is attached.
+   */
+  setWalletClient(walletClient: WalletClient | null): void {
+    this.walletClient = walletClient
+  }
+
+  getAddress(): Address {
+    return this.address
+  }
+
+  isReadOnly(): boolean {
+    return !this.walletClient?.account
+  }
+
+  /**
+   * Returns a view of this contract whose transactions use `overrides`,
+   * e.g. `sdk.deedNFT.withOverrides({ speed: 'fast' }).approve(to, id)`.
+   * The original contract is unchanged.
+   */
+  withOverrides(overrides: TransactionOverrides): this {
+    const view = Object.create(this) as this
+    view.overrides = { ...this.overrides, ...overrides }
+    return view
+  }
+
+  /**
+   * Returns a view of this contract whose calls retry under `policies`,
+   * on top of the ones from ContractOptions.retry. Pass a signal to
+   * cancel pending retries:
+   *
+   *   sdk.deedNFT.withRetry({ read: { signal: controller.signal, deadline: 5000 } }).ownerOf(id)
+   */
+  withRetry(policies: RetryPolicies): this {
+    const view = Object.create(this) as this
+    view.retryPolicies = {
+      read: { ...this.retryPolicies.read, ...policies.read },
+      write: { ...this.retryPolicies.write, ...policies.write }
+    }
+    return view
+  }
+
+  // Default policy, then ContractOptions.retry, then withRetry views
+  protected getRetryPolicy(operation: 'read' | 'write') {
+    return { ...getRetryPolicy(operation, this.options.retry), ...this.retryPolicies[operation] }
+  }
+
   protected async executeTransaction(
     method: string,
-    args: any[]
+    args: readonly unknown[],
+    callOverrides: TransactionOverrides = {}
   ): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }> {
+    const overrides = { ...this.overrides, ...callOverrides }
+    if (this.dryRunning) {
+      throw new DryRunCapture(await this.simulateTransaction(method, args, overrides))
+    }
+
     try {
-      if (!this.walletClient) {
+      if (!this.walletClient?.account) {
         throw new ProtocolError(
-          'Wallet client is required for signing transactions',
-          ErrorType.UNAUTHORIZED
+          `Cannot send ${method}: no wallet is connected (read-only mode)`,
+          ErrorType.WALLET_NOT_CONNECTED,
+          { method }
         )
       }
 
-      const { request } = await this.publicClient.simulateContract({
+      const account = this.walletClient.account
+      const { request } = await retry(() => this.publicClient.simulateContract({
         address: this.address,
         abi: this.abi as Abi,
         functionName: method,
         args,
-        account: this.walletClient.account
-      })
+        account,
+        value: overrides.value
+      }), this.getRetryPolicy('write'))
+
+      const fees = await this.getFees(overrides)
+      const walletClient = this.walletClient
+      const send = (recovery: RecoveryOverrides) => walletClient.writeContract({
+        ...request,
+        ...(fees ?? {}),
+        ...(overrides.gas !== undefined && { gas: overrides.gas }),
+        ...(overrides.nonce !== undefined && { nonce: overrides.nonce }),
+        ...recovery
+      } as typeof request)
 
-      const hash = await this.walletClient.writeContract(request)
+      const hash = this.options.errorHandler
+        ? await this.options.errorHandler.sendWithRecovery(method, walletClient.account!.address, send, fees)
+        : await send({})
       
       return {
         hash,
         wait: async () => await this.publicClient.waitForTransactionReceipt({ hash })
       }
     } catch (error) {
-      throw ProtocolError.fromError(error)
+      throw ProtocolError.fromError(error, this.abi)
     }
   }
 
-  protected async executeCall<T>(method: string, args: any[]): Promise<T> {
+  /**
+   * Returns the contract's write methods as dry runs: each one runs its
+   * usual checks, then reports what its transaction would do instead of
+   * sending it. Methods that send several transactions report the first.
+   *
+   *   const report = await sdk.deedNFT.dryRun().mintAsset(...)
+   */
+  dryRun(overrides: TransactionOverrides = {}): DryRun<this> {
+    const view = this.withOverrides(overrides)
+    view.dryRunning = true
+
+    return new Proxy(view, {
+      get: (target, property) => {
+        const member = Reflect.get(target, property)
+        if (typeof member !== 'function') return member
+
+        return async (...args: unknown[]) => {
+          try {
+            await member.apply(target, args)
+          } catch (error) {
+            if (error instanceof DryRunCapture) return error.report
+            // Failed pre-checks are reported like reverts
+            if (error instanceof ProtocolError && error.code === ErrorType.VALIDATION_ERROR) {
+              return {
+                method: String(property),
+                args,
+                success: false,
+                events: [],
+                revert: { reason: error.message }
+              } satisfies DryRunReport
+            }
+            throw error
+          }
+          throw new ProtocolError(
+            `${String(property)} does not send a transaction`,
+            ErrorType.VALIDATION_ERROR,
+            { method: String(property) }
+          )
+        }
+      }
+    }) as unknown as DryRun<this>
+  }
+
+  /**
+   * Simulates `method` from the connected account and reports its return
+   * value, emitted events, gas, fees and revert reason.
+   */
+  protected async simulateTransaction(
+    method: string,
+    args: readonly unknown[],
+    overrides: TransactionOverrides = {}
+  ): Promise<DryRunReport> {
+    const account = this.walletClient?.account
+    if (!account) {
+      throw new ProtocolError(
+        `Cannot simulate ${method}: no wallet is connected (read-only mode)`,
+        ErrorType.WALLET_NOT_CONNECTED,
+        { method }
+      )
+    }
+
+    const report: DryRunReport = { method, args, success: false, events: null }
     try {
-      const data = await this.publicClient.readContract({
+      const call = await this.simulateWithLogs(method, args, overrides, account)
+      if (call?.status === 'failure') {
+        if (!isRevert(call.error)) throw call.error
+        report.revert = decodeRevert(call.error, this.abi)
+        return report
+      }
+
+      if (call) {
+        report.result = call.result
+        report.events = this.decodeEvents(call.logs ?? [])
+      } else {
+        const { result } = await this.publicClient.simulateContract({
+          address: this.address,
+          abi: this.abi as Abi,
+          functionName: method,
+          args,
+          account,
+          value: overrides.value
+        })
+        report.result = result
+      }
+
+      report.gas = overrides.gas ?? await this.publicClient.estimateContractGas({
         address: this.address,
         abi: this.abi as Abi,
         functionName: method,
-        args
+        args,
+        account,
+        value: overrides.value
       })
-      return data as T
     } catch (error) {
-      throw ProtocolError.fromError(error)
+      if (!isRevert(error)) throw ProtocolError.fromError(error, this.abi)
+      report.revert = decodeRevert(error, this.abi)
+      return report
     }
+
+    const fees = await this.getFees(overrides) ?? await this.publicClient.estimateFeesPerGas()
+    report.fees = fees
+    report.maxCost = report.gas * ('gasPrice' in fees ? fees.gasPrice : fees.maxFeePerGas)
+    report.success = true
+    return report
+  }
+
+  // eth_simulateV1 returns logs; null when the node does not support it
+  private async simulateWithLogs(
+    method: string,
+    args: readonly unknown[],
+    overrides: TransactionOverrides,
+    account: Account
+  ) {
+    try {
+      const { results } = await this.publicClient.simulateCalls({
+        account,
+        calls: [{
+          to: this.address,
+          abi: this.abi as Abi,
+          functionName: method,
+          args,
+          value: overrides.value
+        }]
+      })
+      return results[0]
+    } catch (error) {
+      if (isRevert(error)) throw error
+      return null
+    }
+  }
+
+  private decodeEvents(logs: Parameters<typeof parseEventLogs>[0]['logs']): DecodedEvent[] {
+    return parseEventLogs({ abi: [...this.abi, ...PROTOCOL_EVENTS], logs }).map(log => ({
+      address: log.address,
+      eventName: log.eventName,
+      args: log.args
+    }))
+  }
+
+  // Explicit fee overrides alone when no FeeManager is configured
+  private async getFees(overrides: TransactionOverrides): Promise<FeeValues | null> {
+    if (this.options.fees) return this.options.fees.getFees(overrides)
+    if (overrides.gasPrice !== undefined) return { gasPrice: overrides.gasPrice }
+    if (overrides.maxFeePerGas !== undefined) {
+      return {
+        maxFeePerGas: overrides.maxFeePerGas,
+        maxPriorityFeePerGas: overrides.maxPriorityFeePerGas ?? overrides.maxFeePerGas
+      }
+    }
+    return null
+  }
+
+  protected async estimateGas(method: string, args: readonly unknown[]): Promise<bigint> {
+    try {
+      if (!this.walletClient?.account) {
+        throw new ProtocolError(
+          `Cannot estimate ${method}: no wallet is connected (read-only mode)`,
+          ErrorType.WALLET_NOT_CONNECTED,
+          { method }
+        )
+      }
+
+      return await this.publicClient.estimateContractGas({
+        address: this.address,
+        abi: this.abi as Abi,
+        functionName: method,
+        args,
+        account: this.walletClient.account
+      })
+    } catch (error) {
+      throw ProtocolError.fromError(error, this.abi)
+    }
+  }
+
+  protected async executeCall<T>(method: string, args: readonly unknown[]): Promise<T> {
+    const call = { address: this.address, abi: this.abi as Abi, functionName: method, args }
+    const read = async () => this.options.batcher
+      ? await this.options.batcher.call<T>(call)
+      : await this.publicClient.readContract(call) as T
+
+    try {
+      return this.options.errorHandler?.isRecoveryEnabled()
+        ? await this.options.errorHandler.read(method, read, this.getRetryPolicy('read'))
+        : await retry(read, this.getRetryPolicy('read'))
+    } catch (error) {
+      throw ProtocolError.fromError(error, this.abi)
+    }
+  }
+
+  /**
+   * Reads this contract's past `eventName` logs through EventIndexer, so a
+   * range the provider rejects is split into smaller chunks. Scans from
+   * genesis unless range.fromBlock is set.
+   */
+  protected async getPastEvents(
+    eventName: string,
+    args: Record<string, unknown>,
+    range: { fromBlock?: bigint; toBlock?: bigint } = {}
+  ): Promise<Log[]> {
+    const events = this.options.events ??
+      new EventManager(this.publicClient, undefined, this.options.retry?.events)
+    const logs: Log[] = []
+    await new EventIndexer(events, this.publicClient).indexEvents({
+      address: this.address,
+      abi: this.abi,
+      eventName,
+      fromBlock: range.fromBlock ?? 0n,
+      toBlock: range.toBlock,
+      args,
+      onLogs: chunk => {
+        logs.push(...chunk)
+      }
+    })
+    return logs
+  }
+
+  /**
+   * Reads many calls on this contract through Multicall3, one round trip per
+   * MULTICALL_BATCH_SIZE calls. Failures are reported per call, not thrown.
+   */
+  protected async executeMulticall<T>(
+    calls: { method: string; args: readonly unknown[] }[]
+  ): Promise<MulticallResult<T>[]> {
+    const results: MulticallResult<T>[] = []
+
+    for (let i = 0; i < calls.length; i += MULTICALL_BATCH_SIZE) {
+      const chunk = calls.slice(i, i + MULTICALL_BATCH_SIZE)
+      try {
+        const responses = await this.publicClient.multicall({
+          contracts: chunk.map(call => ({
+            address: this.address,
+            abi: this.abi as Abi,
+            functionName: call.method,
+            args: call.args
+          })),
+          allowFailure: true,
+          multicallAddress: this.options.multicallAddress ?? MULTICALL3_ADDRESS,
+          batchSize: 0
+        })
+
+        responses.forEach(response => {
+          results.push(
+            response.status === 'success'
+              ? { status: 'success', result: response.result as T }
+              : { status: 'failure', error: ProtocolError.fromError(response.error, this.abi) }
+          )
+        })
+      } catch (error) {
+        const failure = ProtocolError.fromError(error, this.abi)
+        chunk.forEach(() => results.push({ status: 'failure', error: failure }))
+      }
+    }
+
+    return results
   }
-} 
\ No newline at end of file
+}
@@ -2,23 +2,52 @@ import {
   type PublicClient, 
   type WalletClient,
   type Address,
-  type Hash
+  type Hash,
+  type TransactionReceipt
 } from 'viem'
-import { BaseContract } from './BaseContract'
+import { BaseContract, type ContractOptions } from './BaseContract'
 import { DeedNFTABI } from '../abis'
-import { AssetType } from '../types'
+import { AssetType, DeedInfo, DeedInfoResult } from '../types'
 import { IPFSClient } from '../utils/ipfs'
+import { AgreementService, type AgreementWarning } from '../utils/agreements'
+import { ValidatorContract } from './ValidatorContract'
+
+type DeedInfoTuple = readonly [AssetType, boolean, string, string, string, Address]
+
+function toDeedInfo([
+  assetType,
+  isValidated,
+  operatingAgreement,
+  definition,
+  configuration,
+  validator
+]: DeedInfoTuple): DeedInfo {
+  return { assetType, isValidated, operatingAgreement, definition, configuration, validator }
+}
+
+export interface DeedNFTContractOptions extends ContractOptions {
+  // Where mintAsset stores deed details; defaults to an in-memory node
+  ipfsClient?: IPFSClient
+  // Used by mintAsset to check agreements against a validator
+  agreements?: AgreementService
+}
 
 export class DeedNFTContract extends BaseContract {
   private ipfsClient: IPFSClient;
+  private agreements: AgreementService;
 
   constructor(
     publicClient: PublicClient,
-    walletClient: WalletClient,
-    address: Address
+    walletClient: WalletClient | null,
+    address: Address,
+    options: DeedNFTContractOptions = {}
   ) {
-    super(publicClient, walletClient, address, DeedNFTABI)
-    this.ipfsClient = new IPFSClient();
+    super(publicClient, walletClient, address, DeedNFTABI, options)
+    this.ipfsClient = options.ipfsClient ?? new IPFSClient();
+    this.agreements = options.agreements ?? new AgreementService(
+      this.ipfsClient,
+      validator => new ValidatorContract(publicClient, null, validator, options)
+    );
   }
 
   async mintAsset(
@@ -26,15 +55,29 @@ export class DeedNFTContract extends BaseContract {
     assetType: AssetType,
     operatingAgreement: string,
     definition: string,
-    configuration: string
-  ): Promise<{ hash: Hash }> {
-    const detailsCid = await this.ipfsClient.addFile(JSON.stringify({
-      operatingAgreement,
-      definition,
-      configuration
-    }));
+    configuration: string,
+    options: {
+      // Validator expected to validate the deed; its agreements are checked
+      validator?: Address;
+      onWarning?: (warning: AgreementWarning) => void;
+    } = {}
+  ): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt>; warnings: AgreementWarning[] }> {
+    const warnings: AgreementWarning[] = [];
+    if (options.validator) {
+      const warning = await this.agreements.checkAgreement(options.validator, operatingAgreement);
+      if (warning) {
+        warnings.push(warning);
+        options.onWarning?.(warning);
+      }
+    }
+
+    // Dry runs only compute the CID; uploading could be a paid pinning write
+    const details = JSON.stringify({ operatingAgreement, definition, configuration });
+    const detailsCid = this.dryRunning
+      ? await this.ipfsClient.hashFile(details)
+      : await this.ipfsClient.addFile(details);
 
-    return this.executeTransaction('mintAsset', [
+    const { hash, wait } = await this.executeTransaction('mintAsset', [
       owner,
       assetType,
       detailsCid,
@@ -42,17 +85,25 @@ export class DeedNFTContract extends BaseContract {
       definition,
       configuration
     ])
+    return { hash, wait, warnings }
   }
 
-  async getDeedInfo(tokenId: bigint): Promise<[
-    AssetType,
-    boolean,
-    string,
-    string,
-    string,
-    string
-  ]> {
-    return this.executeCall('getDeedInfo', [tokenId])
+  async getDeedInfo(tokenId: bigint): Promise<DeedInfo> {
+    const result = await this.executeCall<DeedInfoTuple>('getDeedInfo', [tokenId])
+    return toDeedInfo(result)
+  }
+
+  // One Multicall3 round trip per batch instead of one RPC per token
+  async getDeedInfos(tokenIds: bigint[]): Promise<DeedInfoResult[]> {
+    const results = await this.executeMulticall<DeedInfoTuple>(
+      tokenIds.map(tokenId => ({ method: 'getDeedInfo', args: [tokenId] }))
+    )
+
+    return results.map((result, i) =>
+      result.status === 'success'
+        ? { tokenId: tokenIds[i], success: true, deedInfo: toDeedInfo(result.result) }
+        : { tokenId: tokenIds[i], success: false, error: result.error }
+    )
   }
 
   async canSubdivide(tokenId: bigint): Promise<boolean> {
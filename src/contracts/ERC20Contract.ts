@@ -0,0 +1,133 @@
+import { 
+  type PublicClient, 
+  type WalletClient,
+  type Address,
+  type Hash,
+  type Hex,
+  type TransactionReceipt,
+  type TypedDataDomain,
+  domainSeparator,
+  parseSignature
+} from 'viem'
+import { BaseContract, type ContractOptions } from './BaseContract'
+import { ERC20ABI } from '../abis'
+import { ProtocolError, ErrorType } from '../utils/errors'
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+} as const
+
+/**
+ * Any ERC-20 token, e.g. a FundManager payment token. Permit helpers only
+ * work on tokens implementing EIP-2612.
+ */
+export class ERC20Contract extends BaseContract {
+  constructor(
+    publicClient: PublicClient,
+    walletClient: WalletClient | null,
+    address: Address,
+    options: ContractOptions = {}
+  ) {
+    super(publicClient, walletClient, address, ERC20ABI, options)
+  }
+
+  async balanceOf(account: Address): Promise<bigint> {
+    return this.executeCall('balanceOf', [account])
+  }
+
+  async allowance(owner: Address, spender: Address): Promise<bigint> {
+    return this.executeCall('allowance', [owner, spender])
+  }
+
+  async approve(
+    spender: Address,
+    amount: bigint
+  ): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }> {
+    return this.executeTransaction('approve', [spender, amount])
+  }
+
+  async symbol(): Promise<string> {
+    return this.executeCall('symbol', [])
+  }
+
+  async decimals(): Promise<number> {
+    return this.executeCall('decimals', [])
+  }
+
+  /**
+   * Returns the token's EIP-712 domain if it supports EIP-2612, or null.
+   * The domain is only trusted when it hashes to the token's own
+   * DOMAIN_SEPARATOR, so a wrong guess of `version` is never signed.
+   */
+  async getPermitDomain(): Promise<TypedDataDomain | null> {
+    try {
+      const [name, separator, chainId] = await Promise.all([
+        this.executeCall<string>('name', []),
+        this.executeCall<Hex>('DOMAIN_SEPARATOR', []),
+        this.publicClient.getChainId()
+      ])
+      const version = await this.executeCall<string>('version', []).catch(() => '1')
+      const domain = { name, version, chainId, verifyingContract: this.address }
+
+      return domainSeparator({ domain }).toLowerCase() === separator.toLowerCase()
+        ? domain
+        : null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Signs an EIP-2612 permit with the connected wallet and submits it to
+   * the token, granting `spender` an allowance of `value`.
+   */
+  async permit(
+    spender: Address,
+    value: bigint,
+    deadline: bigint
+  ): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }> {
+    const account = this.walletClient?.account
+    if (!this.walletClient || !account) {
+      throw new ProtocolError(
+        'Cannot sign permit: no wallet is connected (read-only mode)',
+        ErrorType.WALLET_NOT_CONNECTED,
+        { method: 'permit' }
+      )
+    }
+
+    const domain = await this.getPermitDomain()
+    if (!domain) {
+      throw new ProtocolError(
+        `Token ${this.address} does not support EIP-2612 permit`,
+        ErrorType.VALIDATION_ERROR,
+        { token: this.address }
+      )
+    }
+
+    const nonce = await this.executeCall<bigint>('nonces', [account.address])
+    const signature = await this.walletClient.signTypedData({
+      account,
+      domain,
+      types: PERMIT_TYPES,
+      primaryType: 'Permit',
+      message: { owner: account.address, spender, value, nonce, deadline }
+    })
+    const { v, r, s, yParity } = parseSignature(signature)
+
+    return this.executeTransaction('permit', [
+      account.address,
+      spender,
+      value,
+      deadline,
+      v !== undefined ? Number(v) : yParity + 27,
+      r,
+      s
+    ])
+  }
+}
@@ -3,20 +3,30 @@ import {
   type WalletClient,
   type Address,
   type Hash,
-  type TransactionReceipt
+  type TransactionReceipt,
+  type Log
 } from 'viem'
-import { BaseContract } from './BaseContract'
-import { FractionInfo, FractionAssetType } from '../types'
+import { BaseContract, type ContractOptions } from './BaseContract'
+import { FractionInfo, FractionAssetType, ShareHolder, ShareRecipient, UnlockStatus } from '../types'
 import { FractionalizeABI } from '../abis'
 import { IFractionalize } from '../types/contracts'
+import { ProtocolError, ErrorType } from '../utils/errors'
+
+type ShareLog = Log<bigint, number, false> & {
+  eventName: 'SharesMinted' | 'SharesTransferred' | 'SharesBurned'
+  args: { from?: Address; to?: Address; amount: bigint }
+}
+
+type ApprovalLog = Log<bigint, number, false> & { args: { approver: Address } }
 
 export class FractionalizeContract extends BaseContract implements IFractionalize {
   constructor(
     publicClient: PublicClient,
-    walletClient: WalletClient,
-    address: Address
+    walletClient: WalletClient | null,
+    address: Address,
+    options: ContractOptions = {}
   ) {
-    super(publicClient, walletClient, address, FractionalizeABI)
+    super(publicClient, walletClient, address, FractionalizeABI, options)
   }
 
   async createFraction(
@@ -50,4 +60,373 @@ export class FractionalizeContract extends BaseContract implements IFractionaliz
   async getVotingPower(fractionId: bigint, account: Address): Promise<bigint> {
     return this.executeCall('getVotingPower', [fractionId, account])
   }
-}
\ No newline at end of file
+
+  async balanceOf(fractionId: bigint, account: Address): Promise<bigint> {
+    return this.executeCall('balanceOf', [fractionId, account])
+  }
+
+  async mintShares(
+    fractionId: bigint,
+    to: Address,
+    amount: bigint
+  ): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }> {
+    await this.assertCanMint(fractionId, [{ to, amount }])
+    return this.executeTransaction('mintShares', [fractionId, amount, to])
+  }
+
+  async batchMintShares(
+    fractionId: bigint,
+    recipients: ShareRecipient[]
+  ): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }> {
+    await this.assertCanMint(fractionId, recipients)
+    return this.executeTransaction('batchMintShares', [
+      fractionId,
+      recipients.map(recipient => recipient.amount),
+      recipients.map(recipient => recipient.to)
+    ])
+  }
+
+  async transferShares(
+    fractionId: bigint,
+    to: Address,
+    amount: bigint
+  ): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }> {
+    const from = this.requireAccount('transferShares')
+    const info = await this.getActiveFraction(fractionId)
+
+    const balance = await this.balanceOf(fractionId, from)
+    if (balance < amount) {
+      throw new ProtocolError(
+        `Cannot transfer ${amount} shares of fraction ${fractionId}: sender only holds ${balance}`,
+        ErrorType.VALIDATION_ERROR,
+        { fractionId, from, balance, amount }
+      )
+    }
+    await this.assertCanReceive(fractionId, info, [{ to, amount }])
+
+    return this.executeTransaction('transferShares', [fractionId, to, amount])
+  }
+
+  async burnShares(
+    fractionId: bigint,
+    amount: bigint
+  ): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }> {
+    const from = this.requireAccount('burnShares')
+    const info = await this.getActiveFraction(fractionId)
+
+    if (!info.burnable) {
+      throw new ProtocolError(
+        `Shares of fraction ${fractionId} are not burnable`,
+        ErrorType.VALIDATION_ERROR,
+        { fractionId }
+      )
+    }
+    const balance = await this.balanceOf(fractionId, from)
+    if (balance < amount) {
+      throw new ProtocolError(
+        `Cannot burn ${amount} shares of fraction ${fractionId}: sender only holds ${balance}`,
+        ErrorType.VALIDATION_ERROR,
+        { fractionId, from, balance, amount }
+      )
+    }
+
+    return this.executeTransaction('burnShares', [fractionId, amount])
+  }
+
+  /**
+   * Lists current holders of a fraction by replaying its share events.
+   * Pass fromBlock (the deployment block) to avoid scanning from genesis.
+   */
+  async getShareHolders(
+    fractionId: bigint,
+    options: { fromBlock?: bigint; toBlock?: bigint } = {}
+  ): Promise<ShareHolder[]> {
+    try {
+      const range = {
+        fromBlock: options.fromBlock ?? 0n,
+        toBlock: options.toBlock ?? await this.publicClient.getBlockNumber()
+      }
+      const logs = (await Promise.all(
+        (['SharesMinted', 'SharesTransferred', 'SharesBurned'] as const).map(eventName =>
+          this.getPastEvents(eventName, { fractionId }, range)
+        )
+      )).flat() as ShareLog[]
+
+      const balances = new Map<string, ShareHolder>()
+      const adjust = (address: Address, delta: bigint) => {
+        const key = address.toLowerCase()
+        const holder = balances.get(key) ?? { address, balance: 0n }
+        holder.balance += delta
+        balances.set(key, holder)
+      }
+
+      logs
+        .sort((a, b) =>
+          a.blockNumber === b.blockNumber
+            ? a.logIndex - b.logIndex
+            : a.blockNumber < b.blockNumber ? -1 : 1
+        )
+        .forEach(log => {
+          const { from, to, amount } = log.args
+          if (log.eventName !== 'SharesMinted' && from) adjust(from, -amount)
+          if (log.eventName !== 'SharesBurned' && to) adjust(to, amount)
+        })
+
+      return [...balances.values()]
+        .filter(holder => holder.balance > 0n)
+        .sort((a, b) => (a.balance === b.balance ? 0 : a.balance > b.balance ? -1 : 1))
+    } catch (error) {
+      throw new ProtocolError(
+        `Failed to load holders for fraction ${fractionId}`,
+        ProtocolError.fromError(error, this.abi).code,
+        error
+      )
+    }
+  }
+
+  async approveUnlock(
+    fractionId: bigint,
+    options: { fromBlock?: bigint } = {}
+  ): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }> {
+    const account = this.requireAccount('approveUnlock')
+    const status = await this.getUnlockStatus(fractionId, options)
+
+    if (status.unlocked) {
+      throw new ProtocolError(
+        `Fraction ${fractionId} has already been unlocked`,
+        ErrorType.VALIDATION_ERROR,
+        { fractionId }
+      )
+    }
+    if (status.approvers.some(approver => approver.toLowerCase() === account.toLowerCase())) {
+      throw new ProtocolError(
+        `${account} has already approved unlocking fraction ${fractionId}`,
+        ErrorType.VALIDATION_ERROR,
+        { fractionId, account }
+      )
+    }
+    if (await this.getVotingPower(fractionId, account) === 0n) {
+      throw new ProtocolError(
+        `${account} holds no voting power in fraction ${fractionId}`,
+        ErrorType.VALIDATION_ERROR,
+        { fractionId, account }
+      )
+    }
+
+    return this.executeTransaction('approveUnlock', [fractionId])
+  }
+
+  /**
+   * Unlocks the underlying asset to `to`. Refuses to send until the
+   * approval tally reaches requiredApprovalPercentage.
+   */
+  async unlockAsset(
+    fractionId: bigint,
+    to: Address,
+    options: { fromBlock?: bigint } = {}
+  ): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }> {
+    this.requireAccount('unlockAsset')
+    const status = await this.getUnlockStatus(fractionId, options)
+
+    if (status.unlocked) {
+      throw new ProtocolError(
+        `Fraction ${fractionId} has already been unlocked`,
+        ErrorType.VALIDATION_ERROR,
+        { fractionId }
+      )
+    }
+    if (!status.thresholdMet) {
+      throw new ProtocolError(
+        `Fraction ${fractionId} has ${status.approvalPercentage}% approval, ${status.requiredApprovalPercentage}% is required to unlock`,
+        ErrorType.VALIDATION_ERROR,
+        status
+      )
+    }
+
+    return this.executeTransaction('unlockAsset', [fractionId, to])
+  }
+
+  /**
+   * Tallies UnlockApproved approvers by their current voting power against
+   * the fraction's requiredApprovalPercentage.
+   */
+  async getUnlockStatus(
+    fractionId: bigint,
+    options: { fromBlock?: bigint; toBlock?: bigint } = {}
+  ): Promise<UnlockStatus> {
+    try {
+      const range = {
+        fromBlock: options.fromBlock ?? 0n,
+        toBlock: options.toBlock ?? await this.publicClient.getBlockNumber()
+      }
+      const [info, approvals, unlocks] = await Promise.all([
+        this.getFractionInfo(fractionId),
+        this.getPastEvents('UnlockApproved', { fractionId }, range) as Promise<ApprovalLog[]>,
+        this.getPastEvents('AssetUnlocked', { fractionId }, range)
+      ])
+
+      const approvers = [...new Map(
+        approvals.map(log => [log.args.approver.toLowerCase(), log.args.approver])
+      ).values()]
+      const powers = await Promise.all(
+        approvers.map(approver => this.getVotingPower(fractionId, approver))
+      )
+
+      const approvedVotingPower = powers.reduce((sum, power) => sum + power, 0n)
+      const totalVotingPower = BigInt(info.activeShares)
+      const requiredApprovalPercentage = BigInt(info.requiredApprovalPercentage)
+      const basisPoints = totalVotingPower > 0n
+        ? approvedVotingPower * 10000n / totalVotingPower
+        : 0n
+
+      return {
+        fractionId,
+        approvers,
+        approvedVotingPower,
+        totalVotingPower,
+        approvalPercentage: Number(basisPoints) / 100,
+        requiredApprovalPercentage,
+        thresholdMet: totalVotingPower > 0n &&
+          approvedVotingPower * 100n >= requiredApprovalPercentage * totalVotingPower,
+        unlocked: unlocks.length > 0
+      }
+    } catch (error) {
+      throw new ProtocolError(
+        `Failed to load unlock status for fraction ${fractionId}`,
+        ProtocolError.fromError(error, this.abi).code,
+        error
+      )
+    }
+  }
+
+  /**
+   * Calls onStatus with a fresh UnlockStatus now and whenever an approval,
+   * unlock or share movement for the fraction is seen, never with one older
+   * than the last it delivered. Returns an unsubscribe function.
+   */
+  watchUnlockStatus(
+    fractionId: bigint,
+    onStatus: (status: UnlockStatus) => void,
+    options: { fromBlock?: bigint; onError?: (error: ProtocolError) => void } = {}
+  ): () => void {
+    let stopped = false
+    // Reads can resolve out of order; a status older than the last one
+    // delivered is dropped
+    let requested = 0
+    let delivered = 0
+    const refresh = () => {
+      const request = ++requested
+      this.getUnlockStatus(fractionId, { fromBlock: options.fromBlock })
+        .then(status => {
+          if (stopped || request < delivered) return
+          delivered = request
+          onStatus(status)
+        })
+        .catch(error => {
+          if (!stopped && request >= delivered) options.onError?.(ProtocolError.fromError(error))
+        })
+    }
+
+    const unwatchers = ([
+      'UnlockApproved',
+      'AssetUnlocked',
+      'SharesMinted',
+      'SharesTransferred',
+      'SharesBurned'
+    ] as const).map(eventName =>
+      this.publicClient.watchContractEvent({
+        address: this.address,
+        abi: FractionalizeABI,
+        eventName,
+        args: { fractionId },
+        onLogs: refresh
+      })
+    )
+
+    refresh()
+    return () => {
+      stopped = true
+      unwatchers.forEach(unwatch => unwatch())
+    }
+  }
+
+  private requireAccount(method: string): Address {
+    const account = this.walletClient?.account?.address
+    if (!account) {
+      throw new ProtocolError(
+        `Cannot send ${method}: no wallet is connected (read-only mode)`,
+        ErrorType.WALLET_NOT_CONNECTED,
+        { method }
+      )
+    }
+    return account
+  }
+
+  private async getActiveFraction(fractionId: bigint): Promise<FractionInfo> {
+    const info = await this.getFractionInfo(fractionId)
+    if (!info.isActive) {
+      throw new ProtocolError(
+        `Fraction ${fractionId} is not active`,
+        ErrorType.VALIDATION_ERROR,
+        { fractionId }
+      )
+    }
+    return info
+  }
+
+  private async assertCanMint(fractionId: bigint, recipients: ShareRecipient[]): Promise<void> {
+    this.requireAccount('mintShares')
+    const info = await this.getActiveFraction(fractionId)
+
+    const total = recipients.reduce((sum, recipient) => sum + recipient.amount, 0n)
+    const remaining = BigInt(info.totalShares) - BigInt(info.activeShares)
+    if (total > remaining) {
+      throw new ProtocolError(
+        `Cannot mint ${total} shares of fraction ${fractionId}: only ${remaining} remain`,
+        ErrorType.VALIDATION_ERROR,
+        { fractionId, requested: total, remaining }
+      )
+    }
+
+    await this.assertCanReceive(fractionId, info, recipients)
+  }
+
+  // Mirrors the contract's per-wallet cap so callers get a readable error
+  // instead of a revert. Amounts to the same address are summed first.
+  private async assertCanReceive(
+    fractionId: bigint,
+    info: FractionInfo,
+    recipients: ShareRecipient[]
+  ): Promise<void> {
+    // Keyed by lowercase address so checksummed and lowercase entries merge
+    const incoming = new Map<string, ShareRecipient>()
+    for (const { to, amount } of recipients) {
+      const key = to.toLowerCase()
+      const previous = incoming.get(key)
+      incoming.set(key, { to: previous?.to ?? to, amount: (previous?.amount ?? 0n) + amount })
+    }
+
+    const maxPerWallet = BigInt(info.maxSharesPerWallet)
+    await Promise.all([...incoming.values()].map(async ({ to, amount }) => {
+      const [canReceive, balance] = await Promise.all([
+        this.canReceiveShares(fractionId, to),
+        this.balanceOf(fractionId, to)
+      ])
+
+      if (!canReceive) {
+        throw new ProtocolError(
+          `${to} cannot receive shares of fraction ${fractionId}`,
+          ErrorType.VALIDATION_ERROR,
+          { fractionId, to }
+        )
+      }
+      if (maxPerWallet > 0n && balance + amount > maxPerWallet) {
+        throw new ProtocolError(
+          `${to} would hold ${balance + amount} shares of fraction ${fractionId}, above the limit of ${maxPerWallet} per wallet`,
+          ErrorType.VALIDATION_ERROR,
+          { fractionId, to, balance, amount, maxSharesPerWallet: maxPerWallet }
+        )
+      }
+    }))
+  }
+}
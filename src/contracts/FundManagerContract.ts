@@ -5,30 +5,58 @@ import {
   type Hash,
   type TransactionReceipt
 } from 'viem'
-import { BaseContract } from './BaseContract';
-import { AssetType } from '../types';
+import { BaseContract, type ContractOptions } from './BaseContract';
+import {
+  AssetType,
+  MintCostQuote,
+  MintPaymentReport,
+  PaymentApprovalMode,
+  PaymentApprovalStep
+} from '../types';
 import { FundManagerABI } from '../abis';
+import { IFundManager } from '../types/contracts';
+import { ProtocolError, ErrorType, ContractError } from '../utils/errors';
+import { ERC20Contract } from './ERC20Contract';
 
-export class FundManagerContract extends BaseContract {
+export class FundManagerContract extends BaseContract implements IFundManager {
   constructor(
     publicClient: PublicClient,
-    walletClient: WalletClient,
-    address: Address
+    walletClient: WalletClient | null,
+    address: Address,
+    options: ContractOptions = {}
   ) {
-    super(publicClient, walletClient, address, FundManagerABI);
-  }
-
-  async mintDeedNFT(params: {
-    assetType: AssetType;
-    ipfsDetailsHash: string;
-    operatingAgreement: string;
-    definition: string;
-    configuration: string;
-    validatorContract: string;
-    token: string;
-    ipfsTokenURI: string;
-  }): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }> {
-    return this.executeTransaction('mintDeedNFT', [
+    super(publicClient, walletClient, address, FundManagerABI, options);
+  }
+
+  /**
+   * Mints through FundManager, paying the service fee in `params.token`.
+   * Before sending, the fee is checked against the wallet's balance and
+   * allowance; a missing allowance is granted with `approve`. FundManager
+   * cannot take a permit signature with the mint, so `approval: 'permit'`
+   * sends the permit as its own transaction and 'auto' never picks it.
+   */
+  async mintDeedNFT(
+    params: {
+      assetType: AssetType;
+      ipfsDetailsHash: string;
+      operatingAgreement: string;
+      definition: string;
+      configuration: string;
+      validatorContract: Address;
+      token: Address;
+      ipfsTokenURI: string;
+    },
+    options: {
+      approval?: PaymentApprovalMode;
+      // Allowance to grant when one is needed; defaults to the exact fee
+      approveAmount?: bigint;
+      // Unix seconds; defaults to one hour from now
+      permitDeadline?: bigint;
+    } = {}
+  ): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt>; payment: MintPaymentReport }> {
+    const payment = await this.preparePayment(params.token, options);
+
+    const { hash, wait } = await this.executeTransaction('mintDeedNFT', [
       params.assetType,
       params.ipfsDetailsHash,
       params.operatingAgreement,
@@ -38,9 +66,151 @@ export class FundManagerContract extends BaseContract {
       params.token,
       params.ipfsTokenURI
     ]);
+    return { hash, wait, payment };
+  }
+
+  private async preparePayment(
+    token: Address,
+    options: { approval?: PaymentApprovalMode; approveAmount?: bigint; permitDeadline?: bigint }
+  ): Promise<MintPaymentReport> {
+    const owner = this.walletClient?.account?.address;
+    if (!owner) {
+      throw new ProtocolError(
+        'Cannot send mintDeedNFT: no wallet is connected (read-only mode)',
+        ErrorType.WALLET_NOT_CONNECTED,
+        { method: 'mintDeedNFT' }
+      );
+    }
+
+    const quote = await this.quoteMintCost(token);
+    if (!quote.whitelisted) {
+      throw new ProtocolError(
+        `Token ${token} is not an accepted payment token`,
+        ErrorType.VALIDATION_ERROR,
+        { token }
+      );
+    }
+
+    const erc20 = new ERC20Contract(this.publicClient, this.walletClient, token, this.options);
+    const [balance, allowanceBefore] = await Promise.all([
+      erc20.balanceOf(owner),
+      erc20.allowance(owner, this.address)
+    ]);
+    const report: MintPaymentReport = {
+      token,
+      serviceFee: quote.serviceFee,
+      balance,
+      allowanceBefore,
+      steps: []
+    };
+
+    if (balance < quote.serviceFee) {
+      throw new ProtocolError(
+        `Balance of ${balance} is below the service fee of ${quote.serviceFee} for token ${token}`,
+        ErrorType.VALIDATION_ERROR,
+        report
+      );
+    }
+
+    if (allowanceBefore >= quote.serviceFee) {
+      report.steps.push({ type: 'allowance-sufficient', allowance: allowanceBefore });
+      return report;
+    }
+
+    // 'none' leaves the allowance to the caller; the mint will likely revert.
+    // Dry runs never approve, so they report that revert too
+    const approval = options.approval ?? 'auto';
+    if (approval === 'none' || this.dryRunning) {
+      return report;
+    }
+
+    const amount = options.approveAmount ?? quote.serviceFee;
+    if (approval === 'permit') {
+      const deadline = options.permitDeadline ?? BigInt(Math.floor(Date.now() / 1000) + 3600);
+      const tx = await erc20.permit(this.address, amount, deadline);
+      await this.confirmApproval({ type: 'permit', hash: tx.hash, amount, deadline }, tx.wait, report);
+      return report;
+    }
+
+    let tx: { hash: Hash; wait: () => Promise<TransactionReceipt> };
+    try {
+      tx = await erc20.approve(this.address, amount);
+    } catch (error) {
+      // Tokens like USDT reject changing one non-zero allowance to another,
+      // so the allowance is reset to zero first
+      if (allowanceBefore === 0n || !(error instanceof ContractError)) throw error;
+      const reset = await erc20.approve(this.address, 0n);
+      await this.confirmApproval({ type: 'approve', hash: reset.hash, amount: 0n }, reset.wait, report);
+      tx = await erc20.approve(this.address, amount);
+    }
+    await this.confirmApproval({ type: 'approve', hash: tx.hash, amount }, tx.wait, report);
+    return report;
+  }
+
+  // The mint is simulated before sending, so each approval must be mined
+  private async confirmApproval(
+    step: Exclude<PaymentApprovalStep, { type: 'allowance-sufficient' }>,
+    wait: () => Promise<TransactionReceipt>,
+    report: MintPaymentReport
+  ): Promise<void> {
+    const receipt = await wait();
+    if (receipt.status !== 'success') {
+      throw new ProtocolError(
+        `${step.type} transaction ${step.hash} reverted`,
+        ErrorType.TRANSACTION_FAILED,
+        report
+      );
+    }
+    report.steps.push(step);
+  }
+
+  async getServiceFee(token: Address): Promise<bigint> {
+    return this.executeCall('getServiceFee', [token]);
   }
 
-  async getServiceFeesBalance(token: string): Promise<bigint> {
+  async getServiceFeesBalance(token: Address): Promise<bigint> {
     return this.executeCall('getServiceFeesBalance', [token]);
   }
-} 
\ No newline at end of file
+
+  /**
+   * Sends the accumulated service fees for `token` to the fee receiver.
+   * Only callable by the contract's fee manager role.
+   */
+  async withdrawServiceFees(
+    token: Address
+  ): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }> {
+    const balance = await this.getServiceFeesBalance(token);
+    if (balance === 0n) {
+      throw new ProtocolError(
+        `No service fees to withdraw for token ${token}`,
+        ErrorType.VALIDATION_ERROR,
+        { token }
+      );
+    }
+    return this.executeTransaction('withdrawServiceFees', [token]);
+  }
+
+  async isTokenWhitelisted(token: Address): Promise<boolean> {
+    return this.executeCall('isTokenWhitelisted', [token]);
+  }
+
+  async getWhitelistedTokens(): Promise<Address[]> {
+    return this.executeCall('getWhitelistedTokens', []);
+  }
+
+  async getFeeReceiver(): Promise<Address> {
+    return this.executeCall('feeReceiver', []);
+  }
+
+  /**
+   * Quotes what mintDeedNFT charges when paying with `token`. Minting with
+   * a token that is not whitelisted reverts, so check `whitelisted` first.
+   */
+  async quoteMintCost(token: Address): Promise<MintCostQuote> {
+    const [whitelisted, serviceFee] = await Promise.all([
+      this.isTokenWhitelisted(token),
+      this.getServiceFee(token)
+    ]);
+    return { token, whitelisted, serviceFee };
+  }
+}
@@ -3,21 +3,59 @@ import {
   type WalletClient,
   type Address,
   type Hash,
-  type TransactionReceipt
+  type TransactionReceipt,
+  type Log,
+  zeroAddress
 } from 'viem'
-import { BaseContract } from './BaseContract'
+import { BaseContract, type ContractOptions } from './BaseContract'
 import { SubdivideABI } from '../abis'
-import { SubdivisionInfo } from '../types'
+import { SubdivisionInfo, SubdivisionUnit } from '../types'
 import { DeedNFTContract } from './DeedNFTContract'
+import { ProtocolError, ErrorType } from '../utils/errors'
+import {
+  type UnitMintPlan,
+  type BulkMintOptions,
+  type BulkMintResult,
+  validateMintPlan
+} from '../utils/bulkMint'
+
+const UNIT_ID_BITS = 128n
+const UNIT_ID_MASK = (1n << UNIT_ID_BITS) - 1n
+
+const GAS_LIMIT_PATTERN = /gas limit|out of gas|gas required exceeds|intrinsic gas|gas too low/i
+
+// Nodes word this differently; check the whole wrapped error chain
+function isGasLimitError(error: unknown): boolean {
+  let current: unknown = error
+  for (let depth = 0; current && depth < 5; depth++) {
+    const message = current instanceof Error ? current.message : String(current)
+    if (GAS_LIMIT_PATTERN.test(message)) return true
+    current = (current as { cause?: unknown }).cause
+  }
+  return false
+}
+
+type UnitLog = Log<bigint, number, false> & {
+  eventName: 'UnitMinted' | 'TransferSingle' | 'TransferBatch'
+  args: {
+    deedId?: bigint
+    unitId?: bigint
+    from?: Address
+    to?: Address
+    id?: bigint
+    ids?: readonly bigint[]
+  }
+}
 
 export class SubdivideContract extends BaseContract {
   constructor(
     publicClient: PublicClient,
-    walletClient: WalletClient,
+    walletClient: WalletClient | null,
     address: Address,
-    private deedNFTContract: DeedNFTContract
+    private deedNFTContract: DeedNFTContract,
+    options: ContractOptions = {}
   ) {
-    super(publicClient, walletClient, address, SubdivideABI)
+    super(publicClient, walletClient, address, SubdivideABI, options)
   }
 
   // Reference Subdivide.sol lines 219-247
@@ -50,6 +88,128 @@ export class SubdivideContract extends BaseContract {
     return this.executeTransaction('batchMintUnits', [deedId, unitIds, recipients])
   }
 
+  async estimateBatchMintUnitsGas(
+    deedId: bigint,
+    unitIds: bigint[],
+    recipients: Address[]
+  ): Promise<bigint> {
+    return this.estimateGas('batchMintUnits', [deedId, unitIds, recipients])
+  }
+
+  /**
+   * Mints a large plan through batchMintUnits in sequential transactions
+   * sized to stay under maxGasPerBatch. Units that already have an owner
+   * are skipped, so an interrupted run can simply be called again with the
+   * same plan.
+   */
+  async bulkMintUnits(
+    deedId: bigint,
+    plan: UnitMintPlan,
+    options: BulkMintOptions = {}
+  ): Promise<BulkMintResult> {
+    validateMintPlan(plan)
+    const maxBatchSize = options.maxBatchSize ?? 100
+    const maxGasPerBatch = options.maxGasPerBatch ??
+      (await this.publicClient.getBlock()).gasLimit / 2n
+
+    const info = await this.getSubdivisionInfo(deedId)
+    const outOfRange = plan.find(entry => entry.unitId >= BigInt(info.totalUnits))
+    if (outOfRange) {
+      throw new ProtocolError(
+        `Unit ${outOfRange.unitId} is outside subdivision ${deedId} (${info.totalUnits} units)`,
+        ErrorType.VALIDATION_ERROR,
+        { deedId, unitId: outOfRange.unitId, totalUnits: info.totalUnits }
+      )
+    }
+
+    const skipped = options.skipMinted === false ? [] : await this.findMintedUnits(deedId, plan)
+    const skippedSet = new Set(skipped)
+    const pending = plan.filter(entry => !skippedSet.has(entry.unitId))
+
+    const result: BulkMintResult = { minted: [], skipped, transactions: [] }
+    let batchSize = Math.max(1, maxBatchSize)
+    let offset = 0
+
+    while (offset < pending.length) {
+      let batch = pending.slice(offset, offset + batchSize)
+      const unitIds = () => batch.map(entry => entry.unitId)
+      const recipients = () => batch.map(entry => entry.recipient)
+
+      // Shrink the batch in proportion to how far the estimate overshoots
+      let gas = await this.estimateBatchMintGasOrNull(deedId, unitIds(), recipients())
+      while (gas === null || gas > maxGasPerBatch) {
+        if (batch.length === 1) {
+          throw new ProtocolError(
+            `Minting unit ${batch[0].unitId} alone exceeds the gas limit of ${maxGasPerBatch}`,
+            ErrorType.TRANSACTION_ERROR,
+            { deedId, unitId: batch[0].unitId, gas, maxGasPerBatch }
+          )
+        }
+        const size = gas === null
+          ? Math.floor(batch.length / 2)
+          : Math.floor(batch.length * Number(maxGasPerBatch) / Number(gas))
+        batch = batch.slice(0, Math.max(1, Math.min(size, batch.length - 1)))
+        gas = await this.estimateBatchMintGasOrNull(deedId, unitIds(), recipients())
+      }
+      batchSize = batch.length
+
+      const { hash, wait } = await this.batchMintUnits(deedId, unitIds(), recipients())
+      const receipt = await wait()
+      if (receipt.status !== 'success') {
+        throw new ProtocolError(
+          `Batch mint transaction ${hash} reverted`,
+          ErrorType.TRANSACTION_FAILED,
+          { deedId, hash, unitIds: unitIds(), result }
+        )
+      }
+
+      offset += batch.length
+      result.minted.push(...unitIds())
+      result.transactions.push(hash)
+      options.onProgress?.({
+        batch: result.transactions.length,
+        hash,
+        unitIds: unitIds(),
+        minted: result.minted.length,
+        skipped: skipped.length,
+        total: plan.length
+      })
+    }
+
+    return result
+  }
+
+  private async estimateBatchMintGasOrNull(
+    deedId: bigint,
+    unitIds: bigint[],
+    recipients: Address[]
+  ): Promise<bigint | null> {
+    try {
+      return await this.estimateBatchMintUnitsGas(deedId, unitIds, recipients)
+    } catch (error) {
+      // A batch too large for the block fails estimation rather than
+      // returning a number; the caller halves it and tries again. Other
+      // failures, transient ones included, say nothing about batch size
+      if (unitIds.length > 1 && !ProtocolError.fromError(error).retryable && isGasLimitError(error)) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  private async findMintedUnits(deedId: bigint, plan: UnitMintPlan): Promise<bigint[]> {
+    const owners = await this.executeMulticall<Address>(
+      plan.map(entry => ({ method: 'ownerOfUnit', args: [deedId, entry.unitId] }))
+    )
+    // Unminted units revert or report the zero address
+    return plan
+      .filter((_, i) => {
+        const owner = owners[i]
+        return owner.status === 'success' && owner.result !== zeroAddress
+      })
+      .map(entry => entry.unitId)
+  }
+
   async getSubdivisionInfo(deedId: bigint): Promise<SubdivisionInfo> {
     return this.executeCall('getSubdivisionInfo', [deedId])
   }
@@ -79,7 +239,11 @@ export class SubdivideContract extends BaseContract {
   }): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }> {
     const canSubdivide = await this.deedNFTContract.canSubdivide(params.deedId);
     if (!canSubdivide) {
-      throw new Error('Asset cannot be subdivided');
+      throw new ProtocolError(
+        `Deed ${params.deedId} cannot be subdivided`,
+        ErrorType.VALIDATION_ERROR,
+        { deedId: params.deedId }
+      );
     }
 
     return this.createSubdivision({
@@ -100,4 +264,166 @@ export class SubdivideContract extends BaseContract {
   async getSubdivisions(tokenId: bigint): Promise<bigint[]> {
     return this.executeCall('getSubdivisions', [tokenId])
   }
-} 
\ No newline at end of file
+
+  // Reference Subdivide.sol _getTokenId
+  static getUnitTokenId(deedId: bigint, unitId: bigint): bigint {
+    return (deedId << UNIT_ID_BITS) | unitId
+  }
+
+  static parseUnitTokenId(tokenId: bigint): SubdivisionUnit {
+    return { deedId: tokenId >> UNIT_ID_BITS, unitId: tokenId & UNIT_ID_MASK }
+  }
+
+  async ownerOfUnit(deedId: bigint, unitId: bigint): Promise<Address> {
+    return this.executeCall('ownerOfUnit', [deedId, unitId])
+  }
+
+  /**
+   * Transfers a unit from the connected wallet, or from `from` when the
+   * wallet is an approved operator.
+   */
+  async transferUnit(
+    deedId: bigint,
+    unitId: bigint,
+    to: Address,
+    from?: Address
+  ): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }> {
+    const account = this.walletClient?.account?.address
+    const sender = from ?? account
+    if (!sender) {
+      throw new ProtocolError(
+        'Cannot send transferUnit: no wallet is connected (read-only mode)',
+        ErrorType.WALLET_NOT_CONNECTED,
+        { method: 'transferUnit' }
+      )
+    }
+
+    const owner = await this.ownerOfUnit(deedId, unitId)
+    if (owner.toLowerCase() !== sender.toLowerCase()) {
+      throw new ProtocolError(
+        `Unit ${unitId} of deed ${deedId} is owned by ${owner}, not ${sender}`,
+        ErrorType.VALIDATION_ERROR,
+        { deedId, unitId, owner, from: sender }
+      )
+    }
+    if (account && account.toLowerCase() !== sender.toLowerCase() &&
+        !(await this.isApprovedForAll(sender, account))) {
+      throw new ProtocolError(
+        `${account} is not approved to transfer units held by ${sender}`,
+        ErrorType.UNAUTHORIZED,
+        { deedId, unitId, owner, operator: account }
+      )
+    }
+
+    return this.executeTransaction('safeTransferFrom', [
+      sender,
+      to,
+      SubdivideContract.getUnitTokenId(deedId, unitId),
+      1n,
+      '0x'
+    ])
+  }
+
+  async setApprovalForAll(
+    operator: Address,
+    approved: boolean
+  ): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }> {
+    return this.executeTransaction('setApprovalForAll', [operator, approved])
+  }
+
+  async isApprovedForAll(account: Address, operator: Address): Promise<boolean> {
+    return this.executeCall('isApprovedForAll', [account, operator])
+  }
+
+  /**
+   * Resolves a unit's metadata URI, substituting the ERC-1155 `{id}`
+   * placeholder with the zero-padded hex token id.
+   */
+  async getUnitURI(deedId: bigint, unitId: bigint): Promise<string> {
+    const tokenId = SubdivideContract.getUnitTokenId(deedId, unitId)
+    const uri = await this.executeCall<string>('uri', [tokenId])
+    return uri.replace(/\{id\}/g, tokenId.toString(16).padStart(64, '0'))
+  }
+
+  /**
+   * Lists the units `account` currently holds across all subdivisions by
+   * replaying UnitMinted and ERC-1155 transfer logs, then confirming each
+   * candidate's owner on chain.
+   */
+  async getUnitsOf(
+    account: Address,
+    options: { fromBlock?: bigint; toBlock?: bigint } = {}
+  ): Promise<SubdivisionUnit[]> {
+    try {
+      const range = {
+        fromBlock: options.fromBlock ?? 0n,
+        toBlock: options.toBlock ?? await this.publicClient.getBlockNumber()
+      }
+      const query = (eventName: UnitLog['eventName'], args: Record<string, Address>) =>
+        this.getPastEvents(eventName, args, range)
+
+      const logs = (await Promise.all([
+        query('UnitMinted', { recipient: account }),
+        query('TransferSingle', { to: account }),
+        query('TransferSingle', { from: account }),
+        query('TransferBatch', { to: account }),
+        query('TransferBatch', { from: account })
+      ])).flat() as UnitLog[]
+
+      const held = new Map<string, SubdivisionUnit>()
+      const key = (unit: SubdivisionUnit) => `${unit.deedId}:${unit.unitId}`
+      const holder = account.toLowerCase()
+
+      logs
+        .sort((a, b) =>
+          a.blockNumber === b.blockNumber
+            ? a.logIndex - b.logIndex
+            : a.blockNumber < b.blockNumber ? -1 : 1
+        )
+        .forEach(log => {
+          const { args } = log
+          if (log.eventName === 'UnitMinted') {
+            const unit = { deedId: args.deedId!, unitId: args.unitId! }
+            held.set(key(unit), unit)
+            return
+          }
+
+          const ids = log.eventName === 'TransferSingle' ? [args.id!] : args.ids!
+          for (const id of ids) {
+            const unit = SubdivideContract.parseUnitTokenId(id)
+            if (args.to !== zeroAddress && args.to!.toLowerCase() === holder) {
+              held.set(key(unit), unit)
+            } else if (args.from!.toLowerCase() === holder) {
+              held.delete(key(unit))
+            }
+          }
+        })
+
+      // UnitBurned names the burner, not the holder, so a unit an admin or
+      // operator burned is only caught by asking for its owner
+      const candidates = [...held.values()]
+      const owners = await this.executeMulticall<Address>(
+        candidates.map(unit => ({ method: 'ownerOfUnit', args: [unit.deedId, unit.unitId] }))
+      )
+      const units = candidates.filter((_, i) => {
+        const owner = owners[i]
+        if (owner.status === 'success') return owner.result.toLowerCase() === holder
+        // Burned units revert; a failure worth retrying means the check itself failed
+        if (ProtocolError.fromError(owner.error).retryable) throw owner.error
+        return false
+      })
+
+      return units.sort((a, b) =>
+        a.deedId === b.deedId
+          ? (a.unitId < b.unitId ? -1 : 1)
+          : (a.deedId < b.deedId ? -1 : 1)
+      )
+    } catch (error) {
+      throw new ProtocolError(
+        `Failed to load units held by ${account}`,
+        ProtocolError.fromError(error, this.abi).code,
+        error
+      )
+    }
+  }
+}
@@ -5,17 +5,18 @@ import {
   type Hash,
   type TransactionReceipt
 } from 'viem'
-import { BaseContract } from './BaseContract'
+import { BaseContract, type ContractOptions } from './BaseContract'
 import { IValidator } from '../types/contracts'
 import { ValidatorABI } from '../abis'
 
 export class ValidatorContract extends BaseContract implements IValidator {
   constructor(
     publicClient: PublicClient,
-    walletClient: WalletClient,
-    address: Address
+    walletClient: WalletClient | null,
+    address: Address,
+    options: ContractOptions = {}
   ) {
-    super(publicClient, walletClient, address, ValidatorABI)
+    super(publicClient, walletClient, address, ValidatorABI, options)
   }
 
   async tokenURI(tokenId: bigint): Promise<string> {
@@ -5,17 +5,18 @@ import {
   type Hash,
   type TransactionReceipt
 } from 'viem'
-import { BaseContract } from './BaseContract';
+import { BaseContract, type ContractOptions } from './BaseContract';
 import { ValidatorInfo, AssetType } from '../types';
 import { ValidatorRegistryABI } from '../abis';
 
 export class ValidatorRegistryContract extends BaseContract {
   constructor(
     publicClient: PublicClient,
-    walletClient: WalletClient,
-    address: Address
+    walletClient: WalletClient | null,
+    address: Address,
+    options: ContractOptions = {}
   ) {
-    super(publicClient, walletClient, address, ValidatorRegistryABI);
+    super(publicClient, walletClient, address, ValidatorRegistryABI, options);
   }
 
   async registerValidator(params: {
@@ -40,6 +41,14 @@ export class ValidatorRegistryContract extends BaseContract {
     return this.executeTransaction('updateValidatorStatus', [validator, isActive]);
   }
 
+  async getValidatorOwner(validatorContract: string): Promise<Address> {
+    return this.executeCall('getValidatorOwner', [validatorContract]);
+  }
+
+  async isValidatorActive(validator: string): Promise<boolean> {
+    return this.executeCall('isValidatorActive', [validator]);
+  }
+
   async isValidatorApproved(validator: string, assetType: AssetType): Promise<boolean> {
     return this.executeCall('isValidatorApproved', [validator, assetType]);
   }
@@ -3,4 +3,6 @@ export * from './DeedNFTContract';
 export * from './SubdivideContract';
 export * from './FractionalizeContract';
 export * from './ValidatorRegistryContract';
-export * from './FundManagerContract'; 
\ No newline at end of file
+export * from './ValidatorContract';
+export * from './FundManagerContract';
+export * from './ERC20Contract'; 
\ No newline at end of file
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { type Address } from 'viem';
 import { ProtocolSDK } from '../ProtocolSDK';
 import { AssetType, DeedInfo } from '../types';
+import { ProtocolError, ErrorType } from '../utils/errors';
 
 export function useDeedNFT(sdk: ProtocolSDK) {
   const [deeds, setDeeds] = useState<DeedInfo[]>([]);
@@ -16,7 +17,7 @@ export function useDeedNFT(sdk: ProtocolSDK) {
     const { walletClient } = await sdk.wallet.connect();
     
     if (!walletClient.account) {
-      throw new Error('No wallet account connected');
+      throw new ProtocolError('No wallet account connected', ErrorType.WALLET_NOT_CONNECTED);
     }
 
     return sdk.deedNFT.mintAsset(
@@ -32,20 +33,9 @@ export function useDeedNFT(sdk: ProtocolSDK) {
     setLoading(true);
     try {
       const totalSupply = await sdk.deedNFT.totalSupply();
-      const deedPromises = Array.from({ length: Number(totalSupply) }, (_, i) => 
-        sdk.deedNFT.getDeedInfo(BigInt(i))
-          .then(([assetType, isValidated, operatingAgreement, definition, configuration, validator]) => ({
-            assetType,
-            isValidated,
-            operatingAgreement,
-            definition,
-            configuration,
-            validator
-          }))
-          .catch(() => null)
-      );
-      const deedInfos = await Promise.all(deedPromises);
-      setDeeds(deedInfos.filter((deed): deed is DeedInfo => deed !== null));
+      const tokenIds = Array.from({ length: Number(totalSupply) }, (_, i) => BigInt(i));
+      const results = await sdk.deedNFT.getDeedInfos(tokenIds);
+      setDeeds(results.flatMap(result => (result.success ? [result.deedInfo] : [])));
     } finally {
       setLoading(false);
     }
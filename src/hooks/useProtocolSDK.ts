@@ -3,7 +3,7 @@ import { createPublicClient, http, type Chain } from 'viem';
 import { ProtocolSDK } from '../ProtocolSDK';
 import { NETWORKS } from '../config/networks';
 import { SUPPORTED_CHAINS } from '../config/constants';
-import { ProtocolError } from '../utils/errors';
+import { ProtocolError, ErrorType } from '../utils/errors';
 
 export function useProtocolSDK(chainId: number = SUPPORTED_CHAINS.LOCALHOST) {
   const [sdk, setSDK] = useState<ProtocolSDK | null>(null);
@@ -16,7 +16,9 @@ export function useProtocolSDK(chainId: number = SUPPORTED_CHAINS.LOCALHOST) {
     async function initSDK() {
       try {
         const network = NETWORKS[chainId];
-        if (!network) throw new Error(`Network ${chainId} not configured`);
+        if (!network) {
+          throw new ProtocolError(`Network ${chainId} not configured`, ErrorType.INVALID_CONFIG, { chainId });
+        }
 
         // Create chain configuration for viem
         const chain: Chain = {
@@ -7,6 +7,7 @@ export type {
   NetworkConfig,
   ContractAddresses,
   WalletConfig,
+  BatchConfig,
   SDKConfig
 } from './config/types'
 
@@ -17,20 +18,143 @@ export { SUPPORTED_CHAINS } from './config/constants'
 // Utils
 export {
   WalletManager,
+  AppKitSignerAdapter,
+  LocalAccountSignerAdapter,
+  EIP1193SignerAdapter,
+  WalletClientSignerAdapter,
   TransactionManager,
   EventManager,
+  EventIndexer,
+  MemoryCheckpointStore,
+  LocalStorageCheckpointStore,
+  DeedHistoryReader,
+  ValidatorManager,
+  AgreementService,
   NetworkMonitor,
   TransactionQueue,
+  MulticallBatcher,
+  parseMintPlanCSV,
+  parseMintPlanJSON,
+  validateMintPlan,
   // Error utilities
   ErrorHandler,
   ErrorType,
-  ERROR_CODES,
   ERROR_MESSAGES,
-  ProtocolError
+  ProtocolError,
+  ContractError,
+  ContractErrorType,
+  decodeContractError,
+  setErrorMessages,
+  getErrorMessage,
+  // Retries
+  retry,
+  getRetryPolicy,
+  isRetryableError,
+  DEFAULT_RETRY_POLICIES
 } from './utils'
+export type {
+  ContractErrorDetails,
+  ProtocolErrorOptions,
+  ErrorMessage,
+  ErrorMessageCatalog,
+  ErrorHandlerOptions,
+  RecoveryOptions,
+  RecoveryEvent,
+  RecoveryAction,
+  RetryPolicy,
+  RetryPolicies,
+  RetryOperation,
+  RetryJitter,
+  RetryClassifier,
+  RetryEvent
+} from './utils'
+
+export type { SignerAdapter, LocalAccountSignerConfig } from './utils/signers'
+
+export type {
+  CheckpointStore,
+  EventIndexerOptions,
+  IndexEventsParams,
+  IndexProtocolEventsParams
+} from './utils/eventIndexer'
+
+export type {
+  PendingValidationsOptions,
+  ValidatorListOptions,
+  ValidatorRecord
+} from './utils/validators'
+
+export type {
+  AgreementDocument,
+  AgreementCatalogEntry,
+  AgreementWarning
+} from './utils/agreements'
+
+export type {
+  UnitMintPlan,
+  UnitMintPlanEntry,
+  BulkMintOptions,
+  BulkMintProgress,
+  BulkMintResult
+} from './utils/bulkMint'
+
+// IPFS storage
+export {
+  IPFSClient,
+  HeliaStorageBackend,
+  FilesystemStorageBackend,
+  PinningServiceBackend,
+  GatewayStorageBackend
+} from './utils'
+export type {
+  StorageBackend,
+  PinningServiceConfig,
+  GatewayStorageConfig
+} from './utils/storage'
+export type { IPFSClientConfig } from './utils/ipfs'
 
 // Transaction types
-export type { TransactionOptions } from './utils/transactions'
+export type {
+  TransactionOptions,
+  WatchTransactionOptions,
+  ReplaceTransactionOptions,
+  WatchedTransaction
+} from './utils/transactions'
+
+// Dry runs
+export type {
+  DryRun,
+  DryRunReport,
+  DecodedEvent,
+  RevertReason
+} from './types/contracts'
+
+// Fee strategy
+export { FeeManager } from './utils'
+export type {
+  FeeSpeed,
+  FeeValues,
+  FeeEstimate,
+  FeeStrategy,
+  FeeStrategyContext,
+  GasPolicy,
+  TransactionOverrides
+} from './utils'
+
+// Persistent transaction queue
+export {
+  MemoryQueueStore,
+  LocalStorageQueueStore,
+  IndexedDBQueueStore,
+  FileQueueStore
+} from './utils'
+export type {
+  QueueStore,
+  QueuedOperation,
+  QueuedOperationStatus,
+  QueueOperationRequest,
+  TransactionQueueOptions
+} from './utils'
 
 // React hooks
 export { useProtocolSDK } from './hooks/useProtocolSDK'
@@ -38,7 +162,29 @@ export { useProtocolSDK } from './hooks/useProtocolSDK'
 // Re-export commonly used types
 export type {
   DeedInfo,
+  DeedInfoResult,
+  PendingValidation,
   SubdivisionInfo,
+  SubdivisionUnit,
   FractionInfo,
-  ValidatorInfo
+  ShareHolder,
+  ShareRecipient,
+  UnlockStatus,
+  MintCostQuote,
+  PaymentApprovalMode,
+  PaymentApprovalStep,
+  MintPaymentReport,
+  ValidatorInfo,
+  DeedNFTEvents,
+  SubdivideEvents,
+  FractionalizeEvents,
+  ValidatorEvents,
+  FundManagerEvents,
+  ProtocolEventMap,
+  ProtocolEventContract,
+  ProtocolEventName,
+  ProtocolEventListener,
+  DeedHistoryEntry,
+  DeedHistoryEntryType,
+  DeedHistoryOptions
 } from './types' 
\ No newline at end of file
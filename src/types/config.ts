@@ -1,4 +1,5 @@
-import { type PublicClient, type Address } from 'viem';
+import { type Address } from 'viem';
+import type { SignerAdapter } from '../utils/signers';
 
 export interface ContractAddresses {
   deedNFT: Address;
@@ -13,12 +14,15 @@ export interface NetworkConfig {
   chainId: number;
   rpcUrl: string;
   contracts: ContractAddresses;
+  multicallAddress?: Address;
 }
 
 export interface WalletConfig {
   walletConnectProjectId?: string;
   fallbackRpcUrl?: string;
   supportedChainIds?: number[];
+  // Defaults to AppKit/WalletConnect when omitted
+  signer?: SignerAdapter;
   network?: NetworkConfig;
 }
 
@@ -28,9 +32,3 @@ export interface IPFSConfig {
   protocol: string;
   gateway: string;
 }
-
-export interface SDKConfig {
-  publicClient: PublicClient;
-  network: NetworkConfig;
-  walletConfig?: WalletConfig;
-} 
\ No newline at end of file
@@ -1,5 +1,7 @@
-import { type Hash, type TransactionReceipt, type Address } from 'viem'
-import { AssetType, FractionAssetType, ValidatorInfo, FractionInfo } from './index'
+import { type Hash, type Hex, type TransactionReceipt, type Address } from 'viem'
+import type { FeeValues } from '../utils/fees'
+import type { ContractErrorType } from '../utils/errors'
+import { AssetType, FractionAssetType, ValidatorInfo, FractionInfo, DeedInfo, DeedInfoResult, ShareHolder, UnlockStatus, MintCostQuote } from './index'
 
 export interface IDeedNFTContract {
   mintAsset(
@@ -13,14 +15,8 @@ export interface IDeedNFTContract {
   
   totalSupply(): Promise<bigint>
   
-  getDeedInfo(tokenId: bigint): Promise<[
-    AssetType,
-    boolean,
-    string,
-    string,
-    string,
-    string
-  ]>
+  getDeedInfo(tokenId: bigint): Promise<DeedInfo>
+  getDeedInfos(tokenIds: bigint[]): Promise<DeedInfoResult[]>
   
   canSubdivide(tokenId: bigint): Promise<boolean>
   ownerOf(tokenId: bigint): Promise<Address>
@@ -29,6 +25,46 @@ export interface IDeedNFTContract {
   transferFrom(from: Address, to: Address, tokenId: bigint): Promise<{ hash: Hash }>
 }
 
+export type MulticallResult<T> =
+  | { status: 'success'; result: T }
+  | { status: 'failure'; error: Error }
+
+export interface DecodedEvent {
+  address: Address
+  eventName: string
+  args: unknown
+}
+
+export interface RevertReason {
+  // Error(string) message, custom error name, or the node's message
+  reason: string
+  type?: ContractErrorType
+  errorName?: string
+  args?: readonly unknown[]
+  data?: Hex
+}
+
+// What a write would do if sent now, from contract.dryRun()
+export interface DryRunReport<T = unknown> {
+  method: string
+  args: readonly unknown[]
+  success: boolean
+  result?: T
+  gas?: bigint
+  fees?: FeeValues
+  // gas at the max fee per gas (or gas price)
+  maxCost?: bigint
+  // Null when the node cannot simulate logs (no eth_simulateV1)
+  events: DecodedEvent[] | null
+  revert?: RevertReason
+}
+
+// The write methods of a contract, returning a DryRunReport instead of sending
+export type DryRun<T> = {
+  [K in keyof T as T[K] extends (...args: never[]) => Promise<{ hash: Hash }> ? K : never]:
+    T[K] extends (...args: infer A) => Promise<{ hash: Hash }> ? (...args: A) => Promise<DryRunReport> : never
+}
+
 export interface ISubdivide {
   createSubdivision(
     deedId: bigint,
@@ -64,6 +100,8 @@ export interface IValidatorRegistry {
   ): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }>
   
   getValidatorInfo(validator: Address): Promise<ValidatorInfo>
+  getValidatorOwner(validatorContract: Address): Promise<Address>
+  isValidatorActive(validator: Address): Promise<boolean>
   updateValidatorStatus(validator: Address, isActive: boolean): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }>
   isValidatorApproved(validator: Address, assetType: AssetType): Promise<boolean>
   getValidatorsForAssetType(assetType: AssetType): Promise<Address[]>
@@ -83,20 +121,54 @@ export interface IFractionalize {
   getFractionInfo(fractionId: bigint): Promise<FractionInfo>
   canReceiveShares(fractionId: bigint, account: Address): Promise<boolean>
   getVotingPower(fractionId: bigint, account: Address): Promise<bigint>
+  balanceOf(fractionId: bigint, account: Address): Promise<bigint>
+  mintShares(
+    fractionId: bigint,
+    to: Address,
+    amount: bigint
+  ): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }>
+  transferShares(
+    fractionId: bigint,
+    to: Address,
+    amount: bigint
+  ): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }>
+  burnShares(
+    fractionId: bigint,
+    amount: bigint
+  ): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }>
+  getShareHolders(
+    fractionId: bigint,
+    options?: { fromBlock?: bigint; toBlock?: bigint }
+  ): Promise<ShareHolder[]>
+  approveUnlock(fractionId: bigint): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }>
+  unlockAsset(
+    fractionId: bigint,
+    to: Address
+  ): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }>
+  getUnlockStatus(
+    fractionId: bigint,
+    options?: { fromBlock?: bigint; toBlock?: bigint }
+  ): Promise<UnlockStatus>
 }
 
 export interface IFundManager {
-  mintDeedNFT(
-    owner: Address,
-    assetType: AssetType,
-    ipfsDetailsHash: string,
-    operatingAgreement: string,
-    definition: string,
-    configuration: string
-  ): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }>
+  mintDeedNFT(params: {
+    assetType: AssetType;
+    ipfsDetailsHash: string;
+    operatingAgreement: string;
+    definition: string;
+    configuration: string;
+    validatorContract: Address;
+    token: Address;
+    ipfsTokenURI: string;
+  }): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }>
   
+  getServiceFee(token: Address): Promise<bigint>
   getServiceFeesBalance(token: Address): Promise<bigint>
   withdrawServiceFees(token: Address): Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }>
+  isTokenWhitelisted(token: Address): Promise<boolean>
+  getWhitelistedTokens(): Promise<Address[]>
+  quoteMintCost(token: Address): Promise<MintCostQuote>
 }
 
 // Add other contract interfaces... 
\ No newline at end of file
@@ -6,6 +6,8 @@ export interface SubdivideEvents {
   UnitBurned: (deedId: bigint, unitId: bigint, burner: Address) => void;
   SubdivisionDeactivated: (deedId: bigint) => void;
   CollectionAdminTransferred: (deedId: bigint, previousAdmin: Address, newAdmin: Address) => void;
+  TransferSingle: (operator: Address, from: Address, to: Address, id: bigint, value: bigint) => void;
+  TransferBatch: (operator: Address, from: Address, to: Address, ids: readonly bigint[], values: readonly bigint[]) => void;
 }
 
 export interface FractionalizeEvents {
@@ -13,6 +15,8 @@ export interface FractionalizeEvents {
   SharesTransferred: (fractionId: bigint, from: Address, to: Address, amount: bigint) => void;
   SharesMinted: (fractionId: bigint, to: Address, amount: bigint) => void;
   SharesBurned: (fractionId: bigint, from: Address, amount: bigint) => void;
+  UnlockApproved: (fractionId: bigint, approver: Address) => void;
+  AssetUnlocked: (fractionId: bigint, assetType: bigint, originalTokenId: bigint) => void;
 }
 
 export interface DeedNFTEvents {
@@ -26,6 +30,34 @@ export interface ValidatorEvents {
   ValidatorStatusUpdated: (validator: Address, isActive: boolean) => void;
 }
 
+export interface FundManagerEvents {
+  DeedMinted: (deedId: bigint, minter: Address, token: Address, serviceFee: bigint) => void;
+  ServiceFeesWithdrawn: (recipient: Address, token: Address, amount: bigint) => void;
+  ServiceFeeUpdated: (token: Address, newServiceFee: bigint) => void;
+  TokenWhitelisted: (token: Address) => void;
+  TokenRemovedFromWhitelist: (token: Address) => void;
+}
+
+export interface ProtocolEventMap {
+  deedNFT: DeedNFTEvents;
+  subdivide: SubdivideEvents;
+  fractionalize: FractionalizeEvents;
+  validatorRegistry: ValidatorEvents;
+  fundManager: FundManagerEvents;
+}
+
+export type ProtocolEventContract = keyof ProtocolEventMap;
+
+export type ProtocolEventName<C extends ProtocolEventContract> = keyof ProtocolEventMap[C] & string;
+
+// Declared event args followed by the raw log
+export type ProtocolEventListener<
+  C extends ProtocolEventContract,
+  E extends ProtocolEventName<C>
+> = ProtocolEventMap[C][E] extends (...args: infer A) => void
+  ? (...args: [...A, Log]) => void
+  : never;
+
 export interface EventFilter {
   fromBlock?: bigint;
   toBlock?: bigint;
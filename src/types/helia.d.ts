@@ -1,9 +1,18 @@
 declare module 'helia' {
+  import type { CID } from 'multiformats/cid'
+
   export interface HeliaInit {
     blockstore?: any
   }
 
+  export interface Pins {
+    add(cid: CID): Promise<unknown>
+    rm(cid: CID): Promise<unknown>
+  }
+
   export interface Helia {
+    blockstore: unknown
+    pins: Pins
     stop(): Promise<void>
   }
 
@@ -11,12 +20,12 @@ declare module 'helia' {
 }
 
 declare module '@helia/unixfs' {
-  import type { Helia } from 'helia'
+  import type { CID } from 'multiformats/cid'
 
   export interface UnixFS {
-    addBytes(bytes: Uint8Array): Promise<{ toString(): string }>
-    cat(cid: string): AsyncIterable<Uint8Array>
+    addBytes(bytes: Uint8Array): Promise<CID>
+    cat(cid: CID): AsyncIterable<Uint8Array>
   }
 
-  export function unixfs(helia: Helia): UnixFS
-} 
\ No newline at end of file
+  export function unixfs(helia: { blockstore: unknown }): UnixFS
+} 
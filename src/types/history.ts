@@ -0,0 +1,38 @@
+import { type Address, type Hash } from 'viem'
+import { type ProtocolEventContract } from './events'
+
+interface DeedHistoryEntryBase {
+  contract: ProtocolEventContract;
+  blockNumber: bigint;
+  timestamp: bigint;
+  transactionHash: Hash;
+  logIndex: number;
+}
+
+export type DeedHistoryEntry = DeedHistoryEntryBase & (
+  | {
+      type: 'Minted';
+      owner: Address;
+      minter: Address;
+      assetType: bigint;
+      serviceFee?: { token: Address; amount: bigint };
+    }
+  | { type: 'Transferred'; from: Address; to: Address }
+  | { type: 'Validated'; validator: Address; validatorName?: string }
+  | { type: 'SubdivisionCreated'; name: string; totalUnits: bigint }
+  | { type: 'UnitMinted'; unitId: bigint; recipient: Address }
+  | { type: 'UnitBurned'; unitId: bigint; burner: Address }
+  | { type: 'SubdivisionDeactivated' }
+  | { type: 'FractionCreated'; fractionId: bigint }
+  | { type: 'SharesMinted'; fractionId: bigint; to: Address; amount: bigint }
+  | { type: 'SharesTransferred'; fractionId: bigint; from: Address; to: Address; amount: bigint }
+  | { type: 'SharesBurned'; fractionId: bigint; from: Address; amount: bigint }
+  | { type: 'AssetUnlocked'; fractionId: bigint }
+);
+
+export type DeedHistoryEntryType = DeedHistoryEntry['type'];
+
+export interface DeedHistoryOptions {
+  fromBlock?: bigint;
+  toBlock?: bigint;
+}
@@ -1,3 +1,5 @@
+import type { Address, Hash } from 'viem'
+
 // From DeedNFT.sol
 export enum AssetType {
   Land,
@@ -21,6 +23,21 @@ export interface DeedInfo {
   validator: string;
 }
 
+export type DeedInfoResult =
+  | { tokenId: bigint; success: true; deedInfo: DeedInfo }
+  | { tokenId: bigint; success: false; error: Error };
+
+// An unvalidated deed a given validator is able to validate
+export interface PendingValidation {
+  deedId: bigint;
+  assetType: AssetType;
+  owner: Address;
+  // Unix seconds of the DeedCreated block
+  mintedAt: bigint;
+  blockNumber: bigint;
+  transactionHash: Hash;
+}
+
 // From Subdivide.sol lines 84-95
 export interface SubdivisionInfo {
   name: string;
@@ -51,6 +68,62 @@ export interface FractionInfo {
   collectionAdmin: string;
 }
 
+// A unit is ERC-1155 token (deedId << 128) | unitId on the Subdivide contract
+export interface SubdivisionUnit {
+  deedId: bigint;
+  unitId: bigint;
+}
+
+// Balances rebuilt from SharesMinted/SharesTransferred/SharesBurned logs
+export interface ShareHolder {
+  address: Address;
+  balance: bigint;
+}
+
+export interface ShareRecipient {
+  to: Address;
+  amount: bigint;
+}
+
+// Live unlock tally; voting power is re-read so share transfers after an
+// approval are reflected
+export interface UnlockStatus {
+  fractionId: bigint;
+  approvers: Address[];
+  approvedVotingPower: bigint;
+  totalVotingPower: bigint;
+  // Two decimal places, e.g. 66.67
+  approvalPercentage: number;
+  requiredApprovalPercentage: bigint;
+  thresholdMet: boolean;
+  unlocked: boolean;
+}
+
+// What FundManager.mintDeedNFT will charge in a given payment token
+export interface MintCostQuote {
+  token: Address;
+  whitelisted: boolean;
+  serviceFee: bigint;
+}
+
+// 'auto' approves a short allowance; 'permit' signs an EIP-2612 permit and
+// sends it as its own transaction
+export type PaymentApprovalMode = 'auto' | 'approve' | 'permit' | 'none';
+
+export type PaymentApprovalStep =
+  | { type: 'allowance-sufficient'; allowance: bigint }
+  | { type: 'approve'; hash: Hash; amount: bigint }
+  | { type: 'permit'; hash: Hash; amount: bigint; deadline: bigint };
+
+// How the service fee allowance was secured before mintDeedNFT was sent
+export interface MintPaymentReport {
+  token: Address;
+  serviceFee: bigint;
+  balance: bigint;
+  allowanceBefore: bigint;
+  steps: PaymentApprovalStep[];
+}
+
 // Add ValidatorInfo type from IValidatorRegistry.sol
 export interface ValidatorInfo {
   isActive: boolean;
@@ -80,25 +153,10 @@ export interface IValidatorRegistry {
 export * from './config';
 export * from './transactions';
 export * from './events';
-export * from './errors';
-
-// Add missing interfaces for contract events
-export interface SubdivideEvents {
-  SubdivisionCreated: (deedId: number, name: string, totalUnits: number) => void;
-  UnitMinted: (deedId: number, unitId: number, to: string) => void;
-  SubdivisionDeactivated: (deedId: number) => void;
-  CollectionAdminTransferred: (deedId: number, previousAdmin: string, newAdmin: string) => void;
-}
-
-export interface FractionalizeEvents {
-  FractionCreated: (fractionId: number, assetType: number, originalTokenId: number) => void;
-  SharesTransferred: (fractionId: number, from: string, to: string, amount: number) => void;
-  UnlockApproved: (fractionId: number, approver: string) => void;
-  AssetUnlocked: (fractionId: number, assetType: FractionAssetType, originalTokenId: number) => void;
-}
+export * from './history';
 
 // SDK Configuration types
-export type { SDKConfig } from './sdk'
+export type { SDKConfig } from '../config/types'
 export type { BaseConfig } from './BaseConfig'
 export type { TransactionEventCallbacks } from './transactions'
 export type { ContractAddresses } from './config'
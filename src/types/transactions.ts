@@ -17,9 +17,16 @@ export enum TransactionStatus {
   PENDING = 'PENDING',
   MINING = 'MINING',
   SUCCESS = 'SUCCESS',
-  FAILED = 'FAILED'
+  FAILED = 'FAILED',
+  REPLACED = 'REPLACED',
+  CANCELLED = 'CANCELLED',
+  DROPPED = 'DROPPED'
 }
 
+// Mirrors viem's waitForTransactionReceipt: 'repriced' is a speed-up,
+// 'cancelled' a zero-value self-send, 'replaced' anything else
+export type ReplacementReason = 'repriced' | 'cancelled' | 'replaced'
+
 export interface TransactionState {
   status: TransactionStatus
   hash?: Hash
@@ -32,15 +39,18 @@ export interface TransactionResult {
   hash?: Hash
   receipt?: TransactionReceipt
   error?: string
+  // Set when the tracked transaction was replaced by another with its nonce
+  replacedBy?: Hash
 }
 
 export interface TransactionEventCallbacks {
   onSubmitted?: (hash: Hash) => void
-  onPending?: () => void
-  onConfirmation?: (confirmations: number) => void
+  onPending?: (hash: Hash) => void
+  onConfirmation?: (confirmations: number, receipt: TransactionReceipt) => void
   onSuccess?: (receipt: TransactionReceipt) => void
   onError?: (error: Error) => void
   onSpeedUp?: (newHash: Hash, oldHash: Hash) => void
-  onBlockMined?: (confirmations: number) => void
-  onFailed?: (error: Error) => void
+  onCancel?: (newHash: Hash, oldHash: Hash) => void
+  onReplaced?: (newHash: Hash, oldHash: Hash, reason: ReplacementReason) => void
+  onDropped?: (hash: Hash) => void
 } 
\ No newline at end of file
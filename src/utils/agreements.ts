@@ -0,0 +1,192 @@
+import { type Address } from 'viem'
+import { CID } from 'multiformats/cid'
+import { sha256 } from 'multiformats/hashes/sha2'
+import * as raw from 'multiformats/codecs/raw'
+import { IPFSClient } from './ipfs'
+import { ProtocolError, ErrorType } from './errors'
+import type { ValidatorContract } from '../contracts/ValidatorContract'
+
+// Default UnixFS chunk size; larger files span several blocks
+const SINGLE_BLOCK_LIMIT = 262144
+
+export interface AgreementDocument {
+  uri: string
+  cid: string
+  content: string
+  // False when the document spans several blocks and could only be checked
+  // block by block by the storage backend
+  verified: boolean
+}
+
+export interface AgreementCatalogEntry {
+  uri: string
+  name: string
+  isDefault: boolean
+}
+
+export type AgreementWarning =
+  | { type: 'unrecognized-agreement'; validator: Address; operatingAgreement: string; message: string }
+  | { type: 'agreement-check-failed'; validator: Address; operatingAgreement: string; message: string; error: ProtocolError }
+
+/**
+ * Extracts the CID from `ipfs://<cid>`, `/ipfs/<cid>`, gateway URLs and
+ * bare CIDs. Returns null for URIs that are not content-addressed.
+ */
+export function parseAgreementCid(uri: string): CID | null {
+  const match = uri.trim().match(/^(?:ipfs:\/\/|.*\/ipfs\/)?([a-zA-Z0-9]+)(?:[/?#].*)?$/)
+  if (!match) return null
+  try {
+    return CID.parse(match[1])
+  } catch {
+    return null
+  }
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i])
+}
+
+/**
+ * Returns whether `content` hashes to `cid`, or null when the CID covers a
+ * multi-block DAG that cannot be rebuilt from the file bytes alone.
+ */
+export async function verifyContent(cid: CID, content: Uint8Array): Promise<boolean | null> {
+  if (cid.multihash.code !== sha256.code) return null
+
+  if (cid.code === raw.code) {
+    return equalBytes((await sha256.digest(content)).digest, cid.multihash.digest)
+  }
+
+  const dagPb = await import('@ipld/dag-pb')
+  if (cid.code !== dagPb.code || content.length > SINGLE_BLOCK_LIMIT) return null
+
+  // Small files are a single dag-pb node wrapping UnixFS file data
+  const { UnixFS } = await import('ipfs-unixfs')
+  const block = dagPb.encode({
+    Data: new UnixFS({ type: 'file', data: content }).marshal(),
+    Links: []
+  })
+  return equalBytes((await sha256.digest(block)).digest, cid.multihash.digest)
+}
+
+/**
+ * Resolves operating agreement URIs to their documents and tells which
+ * agreements a validator recognizes. Documents are cached by CID.
+ */
+export class AgreementService {
+  private cache: Map<string, Promise<AgreementDocument>> = new Map()
+
+  constructor(
+    private ipfs: IPFSClient,
+    private getValidator: (address: Address) => ValidatorContract
+  ) {}
+
+  async resolve(uri: string): Promise<AgreementDocument> {
+    const cid = parseAgreementCid(uri)
+    if (!cid) {
+      throw new ProtocolError(
+        `Operating agreement ${uri} is not an IPFS URI`,
+        ErrorType.VALIDATION_ERROR,
+        { uri }
+      )
+    }
+
+    const key = cid.toString()
+    let document = this.cache.get(key)
+    if (!document) {
+      document = this.fetch(uri, cid)
+      this.cache.set(key, document)
+      // Failed lookups are retried on the next call
+      document.catch(() => this.cache.delete(key))
+    }
+    return document
+  }
+
+  private async fetch(uri: string, cid: CID): Promise<AgreementDocument> {
+    let bytes: Uint8Array
+    try {
+      bytes = await this.ipfs.getBytes(cid.toString())
+    } catch (error) {
+      throw new ProtocolError(
+        `Failed to retrieve operating agreement ${uri}`,
+        ErrorType.IPFS_ERROR,
+        error
+      )
+    }
+
+    const matches = await verifyContent(cid, bytes)
+    if (matches === false) {
+      throw new ProtocolError(
+        `Operating agreement ${uri} does not match its CID`,
+        ErrorType.IPFS_ERROR,
+        { uri, cid: cid.toString() }
+      )
+    }
+
+    return {
+      uri,
+      cid: cid.toString(),
+      content: new TextDecoder().decode(bytes),
+      verified: matches === true
+    }
+  }
+
+  clearCache(): void {
+    this.cache.clear()
+  }
+
+  /**
+   * Name the validator gives `uri`, or null if it does not recognize it.
+   */
+  async getAgreementName(validator: Address, uri: string): Promise<string | null> {
+    const name = await this.getValidator(validator).operatingAgreementName(uri)
+    return name ? name : null
+  }
+
+  /**
+   * The agreements `validator` accepts: its default plus any of
+   * `candidates` it has a name for.
+   */
+  async getCatalog(validator: Address, candidates: string[] = []): Promise<AgreementCatalogEntry[]> {
+    try {
+      const defaultUri = await this.getValidator(validator).defaultOperatingAgreement()
+      const uris = [...new Set([defaultUri, ...candidates].filter(uri => uri.length > 0))]
+      const names = await Promise.all(uris.map(uri => this.getAgreementName(validator, uri)))
+
+      return uris.flatMap((uri, i) => {
+        const name = names[i]
+        return name !== null ? [{ uri, name, isDefault: uri === defaultUri }] : []
+      })
+    } catch (error) {
+      throw new ProtocolError(
+        `Failed to load agreement catalog for ${validator}`,
+        ErrorType.CONTRACT_ERROR,
+        error
+      )
+    }
+  }
+
+  /**
+   * Returns a warning when `validator` does not recognize `uri`, or null.
+   * Never throws, so callers can use it as an advisory pre-flight check.
+   */
+  async checkAgreement(validator: Address, uri: string): Promise<AgreementWarning | null> {
+    try {
+      if (await this.getAgreementName(validator, uri) !== null) return null
+      return {
+        type: 'unrecognized-agreement',
+        validator,
+        operatingAgreement: uri,
+        message: `Validator ${validator} does not recognize operating agreement ${uri}`
+      }
+    } catch (error) {
+      return {
+        type: 'agreement-check-failed',
+        validator,
+        operatingAgreement: uri,
+        message: `Could not check operating agreement ${uri} with validator ${validator}`,
+        error: ProtocolError.fromError(error)
+      }
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import { type Address, type Hash, isAddress, getAddress } from 'viem'
+import { ProtocolError, ErrorType } from './errors'
+
+export interface UnitMintPlanEntry {
+  unitId: bigint
+  recipient: Address
+}
+
+export type UnitMintPlan = UnitMintPlanEntry[]
+
+export interface BulkMintProgress {
+  // 1-based; the total number of batches is not known up front because
+  // batch sizes adapt to gas estimates
+  batch: number
+  hash: Hash
+  unitIds: bigint[]
+  minted: number
+  skipped: number
+  total: number
+}
+
+export interface BulkMintOptions {
+  // Upper bound on units per transaction (default 100)
+  maxBatchSize?: number
+  // Gas ceiling per transaction (default: half the latest block gas limit)
+  maxGasPerBatch?: bigint
+  // Skip units that already have an owner on-chain (default true)
+  skipMinted?: boolean
+  onProgress?: (progress: BulkMintProgress) => void
+}
+
+export interface BulkMintResult {
+  minted: bigint[]
+  skipped: bigint[]
+  transactions: Hash[]
+}
+
+function parseUnitId(unitId: unknown): bigint | null {
+  const text = String(unitId ?? '').trim()
+  // BigInt('') is 0n, so a blank cell would otherwise become unit 0
+  if (text === '') return null
+  try {
+    return BigInt(text)
+  } catch {
+    return null
+  }
+}
+
+function toEntry(unitId: unknown, recipient: unknown, source: string): UnitMintPlanEntry {
+  const id = parseUnitId(unitId)
+  if (id === null) {
+    throw new ProtocolError(
+      `Invalid unit id "${unitId}" in ${source}`,
+      ErrorType.VALIDATION_ERROR,
+      { unitId, recipient }
+    )
+  }
+
+  const address = String(recipient).trim()
+  if (id < 0n || !isAddress(address)) {
+    throw new ProtocolError(
+      `Invalid plan entry ${unitId} -> ${recipient} in ${source}`,
+      ErrorType.VALIDATION_ERROR,
+      { unitId, recipient }
+    )
+  }
+  return { unitId: id, recipient: getAddress(address) }
+}
+
+/**
+ * Checks a plan for duplicate units before anything is sent.
+ */
+export function validateMintPlan(plan: UnitMintPlan): UnitMintPlan {
+  const seen = new Set<bigint>()
+  for (const { unitId } of plan) {
+    if (seen.has(unitId)) {
+      throw new ProtocolError(
+        `Unit ${unitId} appears more than once in the mint plan`,
+        ErrorType.VALIDATION_ERROR,
+        { unitId }
+      )
+    }
+    seen.add(unitId)
+  }
+  return plan
+}
+
+/**
+ * Parses `unitId,recipient` rows. A header row and blank lines are ignored.
+ */
+export function parseMintPlanCSV(csv: string): UnitMintPlan {
+  // Rows keep their 1-based line so errors point at the line in the file
+  const rows = csv
+    .split(/\r?\n/)
+    .map((line, i) => ({ line: i + 1, text: line.trim() }))
+    .filter(row => row.text.length > 0)
+
+  // A header names its columns; a first row with a blank id is bad data
+  const firstCell = rows[0]?.text.split(',')[0].trim()
+  if (firstCell && parseUnitId(firstCell) === null) {
+    rows.shift()
+  }
+
+  return validateMintPlan(rows.map(({ line, text }) => {
+    const [unitId, recipient] = text.split(',')
+    return toEntry(unitId, recipient, `CSV row ${line}`)
+  }))
+}
+
+/**
+ * Accepts either `[{ "unitId": 1, "recipient": "0x..." }]` or
+ * `{ "1": "0x..." }`.
+ */
+export function parseMintPlanJSON(json: string): UnitMintPlan {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch (error) {
+    throw new ProtocolError(
+      'Mint plan is not valid JSON',
+      ErrorType.VALIDATION_ERROR,
+      error
+    )
+  }
+
+  const entries = Array.isArray(data)
+    ? data.map((item, i) => toEntry(item?.unitId, item?.recipient, `JSON entry ${i}`))
+    : data && typeof data === 'object'
+      ? Object.entries(data).map(([unitId, recipient]) => toEntry(unitId, recipient, `JSON key ${unitId}`))
+      : null
+
+  if (!entries) {
+    throw new ProtocolError(
+      'Mint plan JSON must be an array or an object',
+      ErrorType.VALIDATION_ERROR
+    )
+  }
+  return validateMintPlan(entries)
+}
@@ -0,0 +1,258 @@
+import {
+  type PublicClient,
+  type Log,
+  type Address,
+  type Hash,
+  zeroAddress
+} from 'viem'
+import { EventManager, PROTOCOL_EVENT_ABIS } from './events'
+import { EventIndexer, type EventIndexerOptions } from './eventIndexer'
+import { ProtocolError } from './errors'
+import { FractionAssetType } from '../types'
+import type { ContractAddresses } from '../config/types'
+import type { ProtocolEventContract } from '../types/events'
+import type { DeedHistoryEntry, DeedHistoryOptions } from '../types/history'
+
+type DecodedLog<T> = Log<bigint, number, false> & { args: T }
+
+// Timestamps are filled in once all entries are known, one getBlock per block
+type WithoutTimestamp<T> = T extends unknown ? Omit<T, 'timestamp'> : never
+type PendingEntry = WithoutTimestamp<DeedHistoryEntry>
+
+function position(log: Log<bigint, number, false>, contract: ProtocolEventContract) {
+  return {
+    contract,
+    blockNumber: log.blockNumber,
+    transactionHash: log.transactionHash as Hash,
+    logIndex: log.logIndex
+  }
+}
+
+/**
+ * Rebuilds a deed's life history from the protocol contracts' logs: mint,
+ * transfers, validations, subdivision and fractionalization activity.
+ * Logs are read through EventIndexer, so ranges a provider rejects are
+ * split into smaller chunks.
+ */
+export class DeedHistoryReader {
+  constructor(
+    private events: EventManager,
+    private publicClient: PublicClient,
+    private contracts: ContractAddresses,
+    private indexerOptions: Omit<EventIndexerOptions, 'store'> = {}
+  ) {}
+
+  private async fetch<T>(
+    indexer: EventIndexer,
+    contract: ProtocolEventContract,
+    eventName: string,
+    range: { fromBlock: bigint; toBlock: bigint },
+    args?: Record<string, unknown>
+  ): Promise<DecodedLog<T>[]> {
+    const logs: Log[] = []
+    await indexer.indexEvents({
+      address: this.contracts[contract],
+      abi: PROTOCOL_EVENT_ABIS[contract],
+      eventName,
+      fromBlock: range.fromBlock,
+      toBlock: range.toBlock,
+      args,
+      onLogs: chunk => {
+        logs.push(...chunk)
+      }
+    })
+    return logs as DecodedLog<T>[]
+  }
+
+  async getDeedHistory(
+    tokenId: bigint,
+    options: DeedHistoryOptions = {}
+  ): Promise<DeedHistoryEntry[]> {
+    try {
+      const range = {
+        fromBlock: options.fromBlock ?? 0n,
+        toBlock: options.toBlock ?? await this.publicClient.getBlockNumber()
+      }
+      const byDeed = { deedId: tokenId }
+      // A fresh in-memory store per history: every event is read once over the whole range
+      const indexer = new EventIndexer(this.events, this.publicClient, this.indexerOptions)
+      const fetch = <T>(
+        contract: ProtocolEventContract,
+        eventName: string,
+        args?: Record<string, unknown>
+      ) => this.fetch<T>(indexer, contract, eventName, range, args)
+
+      const [
+        created,
+        transfers,
+        validations,
+        minted,
+        subdivisions,
+        unitsMinted,
+        unitsBurned,
+        deactivations,
+        fractions
+      ] = await Promise.all([
+        fetch<{ deedId: bigint; owner: Address; assetType: bigint }>('deedNFT', 'DeedCreated', byDeed),
+        fetch<{ from: Address; to: Address; tokenId: bigint }>('deedNFT', 'Transfer', { tokenId }),
+        fetch<{ deedId: bigint; validator: Address }>('deedNFT', 'DeedValidated', byDeed),
+        fetch<{ deedId: bigint; minter: Address; token: Address; serviceFee: bigint }>('fundManager', 'DeedMinted', byDeed),
+        fetch<{ deedId: bigint; name: string; totalUnits: bigint }>('subdivide', 'SubdivisionCreated', byDeed),
+        fetch<{ deedId: bigint; unitId: bigint; recipient: Address }>('subdivide', 'UnitMinted', byDeed),
+        fetch<{ deedId: bigint; unitId: bigint; burner: Address }>('subdivide', 'UnitBurned', byDeed),
+        fetch<{ deedId: bigint }>('subdivide', 'SubdivisionDeactivated', byDeed),
+        // originalTokenId is not indexed, so fractions are filtered client side
+        fetch<{ fractionId: bigint; assetType: bigint; originalTokenId: bigint }>('fractionalize', 'FractionCreated')
+      ])
+
+      const deedFractions = fractions.filter(log =>
+        log.args.originalTokenId === tokenId &&
+        log.args.assetType === BigInt(FractionAssetType.DeedNFT)
+      )
+      const fractionIds = deedFractions.map(log => log.args.fractionId)
+      const validators = [...new Set(validations.map(log => log.args.validator))]
+
+      const [sharesMinted, sharesTransferred, sharesBurned, unlocks, registrations] = await Promise.all([
+        fractionIds.length
+          ? fetch<{ fractionId: bigint; to: Address; amount: bigint }>('fractionalize', 'SharesMinted', { fractionId: fractionIds })
+          : [],
+        fractionIds.length
+          ? fetch<{ fractionId: bigint; from: Address; to: Address; amount: bigint }>('fractionalize', 'SharesTransferred', { fractionId: fractionIds })
+          : [],
+        fractionIds.length
+          ? fetch<{ fractionId: bigint; from: Address; amount: bigint }>('fractionalize', 'SharesBurned', { fractionId: fractionIds })
+          : [],
+        fractionIds.length
+          ? fetch<{ fractionId: bigint }>('fractionalize', 'AssetUnlocked', { fractionId: fractionIds })
+          : [],
+        validators.length
+          ? fetch<{ validator: Address; name: string }>('validatorRegistry', 'ValidatorRegistered', { validator: validators })
+          : []
+      ])
+
+      const validatorNames = new Map(
+        registrations.map(log => [log.args.validator.toLowerCase(), log.args.name])
+      )
+
+      const entries: PendingEntry[] = []
+
+      for (const log of created) {
+        const fee = minted.find(m => m.transactionHash === log.transactionHash)
+        const minter = fee?.args.minter ??
+          (await this.publicClient.getTransaction({ hash: log.transactionHash as Hash })).from
+        entries.push({
+          ...position(log, 'deedNFT'),
+          type: 'Minted',
+          owner: log.args.owner,
+          minter,
+          assetType: log.args.assetType,
+          serviceFee: fee ? { token: fee.args.token, amount: fee.args.serviceFee } : undefined
+        })
+      }
+
+      // Mint transfers are already covered by DeedCreated
+      transfers
+        .filter(log => log.args.from !== zeroAddress)
+        .forEach(log => entries.push({
+          ...position(log, 'deedNFT'),
+          type: 'Transferred',
+          from: log.args.from,
+          to: log.args.to
+        }))
+
+      validations.forEach(log => entries.push({
+        ...position(log, 'deedNFT'),
+        type: 'Validated',
+        validator: log.args.validator,
+        validatorName: validatorNames.get(log.args.validator.toLowerCase())
+      }))
+
+      subdivisions.forEach(log => entries.push({
+        ...position(log, 'subdivide'),
+        type: 'SubdivisionCreated',
+        name: log.args.name,
+        totalUnits: log.args.totalUnits
+      }))
+
+      unitsMinted.forEach(log => entries.push({
+        ...position(log, 'subdivide'),
+        type: 'UnitMinted',
+        unitId: log.args.unitId,
+        recipient: log.args.recipient
+      }))
+
+      unitsBurned.forEach(log => entries.push({
+        ...position(log, 'subdivide'),
+        type: 'UnitBurned',
+        unitId: log.args.unitId,
+        burner: log.args.burner
+      }))
+
+      deactivations.forEach(log => entries.push({
+        ...position(log, 'subdivide'),
+        type: 'SubdivisionDeactivated'
+      }))
+
+      deedFractions.forEach(log => entries.push({
+        ...position(log, 'fractionalize'),
+        type: 'FractionCreated',
+        fractionId: log.args.fractionId
+      }))
+
+      sharesMinted.forEach(log => entries.push({
+        ...position(log, 'fractionalize'),
+        type: 'SharesMinted',
+        fractionId: log.args.fractionId,
+        to: log.args.to,
+        amount: log.args.amount
+      }))
+
+      sharesTransferred.forEach(log => entries.push({
+        ...position(log, 'fractionalize'),
+        type: 'SharesTransferred',
+        fractionId: log.args.fractionId,
+        from: log.args.from,
+        to: log.args.to,
+        amount: log.args.amount
+      }))
+
+      sharesBurned.forEach(log => entries.push({
+        ...position(log, 'fractionalize'),
+        type: 'SharesBurned',
+        fractionId: log.args.fractionId,
+        from: log.args.from,
+        amount: log.args.amount
+      }))
+
+      unlocks.forEach(log => entries.push({
+        ...position(log, 'fractionalize'),
+        type: 'AssetUnlocked',
+        fractionId: log.args.fractionId
+      }))
+
+      const timestamps = await this.getBlockTimestamps(entries.map(entry => entry.blockNumber))
+
+      return entries
+        .map(entry => ({ ...entry, timestamp: timestamps.get(entry.blockNumber)! }) as DeedHistoryEntry)
+        .sort((a, b) =>
+          a.blockNumber === b.blockNumber
+            ? a.logIndex - b.logIndex
+            : a.blockNumber < b.blockNumber ? -1 : 1
+        )
+    } catch (error) {
+      throw new ProtocolError(
+        `Failed to load history for deed ${tokenId}`,
+        ProtocolError.fromError(error).code,
+        error
+      )
+    }
+  }
+
+  private async getBlockTimestamps(blockNumbers: bigint[]): Promise<Map<bigint, bigint>> {
+    const unique = [...new Set(blockNumbers)]
+    const blocks = await Promise.all(
+      unique.map(blockNumber => this.publicClient.getBlock({ blockNumber }))
+    )
+    return new Map(blocks.map((block, i) => [unique[i], block.timestamp]))
+  }
+}
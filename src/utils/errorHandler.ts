@@ -1,108 +1,208 @@
-import { type PublicClient } from 'viem'
+import {
+  type PublicClient,
+  type Address,
+  BaseError,
+  FeeCapTooLowError,
+  NonceTooHighError,
+  NonceTooLowError
+} from 'viem'
 import { ProtocolError, ErrorType } from './errors'
+import { FeeManager, bumpFees, type FeeValues } from './fees'
+import { retry, type RetryPolicy } from './retry'
+import { GAS_PRICE_INCREASE_FACTOR } from '../config/constants'
+
+export type RecoveryAction = 'resync-nonce' | 'bump-fees' | 'retry-read' | 'give-up'
+
+export interface RecoveryEvent {
+  action: RecoveryAction
+  // Contract method or other label of the operation being recovered
+  operation: string
+  // The attempt that failed, starting at 1
+  attempt: number
+  error: ProtocolError
+  // Set for resync-nonce
+  nonce?: number
+  // Set for bump-fees
+  fees?: FeeValues
+  // Set for retry-read, in milliseconds
+  delay?: number
+  timestamp: number
+}
 
-interface RetryConfig {
-  maxAttempts: number;
-  initialDelay: number;
-  maxDelay?: number;
-  backoffFactor?: number;
+export interface RecoveryOptions {
+  // Attempts per operation, the first one included
+  maxAttempts?: number
+  feeBumpFactor?: number
+  // Base delay between read retries, grown by backoff with jitter
+  readDelay?: number
 }
 
-export class ErrorHandler {
-  constructor(private client: PublicClient) {}
+export interface ErrorHandlerOptions {
+  // Off unless set; handleError classifies errors either way
+  recovery?: boolean | RecoveryOptions
+  // Called for every recovery decision, including giving up
+  onRecovery?: (event: RecoveryEvent) => void
+}
 
-  async handleError(error: unknown): Promise<ProtocolError> {
-    if (!(error instanceof Error)) {
-      return ProtocolError.fromError(error)
-    }
+// Values a recovery attempt changes on the next send
+export type RecoveryOverrides = { nonce?: number } & Partial<FeeValues>
 
-    try {
-      if (this.isNonceError(error)) {
-        const result = await this.handleNonceError(error)
-        return new ProtocolError(
-          `Nonce error occurred: ${error.message}`,
-          ErrorType.TRANSACTION_FAILED,
-          { originalError: error, ...result }
-        )
-      }
-
-      if (this.isGasError(error)) {
-        const result = await this.handleGasError()
-        return new ProtocolError(
-          `Gas estimation failed: ${error.message}`,
-          ErrorType.TRANSACTION_FAILED,
-          { originalError: error, ...result }
-        )
-      }
+export class ErrorHandler {
+  private recovery: Required<RecoveryOptions> | null
+
+  constructor(
+    private client: PublicClient,
+    private options: ErrorHandlerOptions = {},
+    // Prices fee bumps, so they follow the network's GasPolicy
+    private fees: FeeManager = new FeeManager(client)
+  ) {
+    const recovery = options.recovery === true ? {} : options.recovery || null
+    this.recovery = recovery && {
+      maxAttempts: recovery.maxAttempts ?? 3,
+      feeBumpFactor: recovery.feeBumpFactor ?? GAS_PRICE_INCREASE_FACTOR,
+      readDelay: recovery.readDelay ?? 500
+    }
+  }
 
-      if (this.isNetworkError(error)) {
-        await this.handleNetworkError(error)
-      }
+  isRecoveryEnabled(): boolean {
+    return this.recovery !== null
+  }
 
-      return ProtocolError.fromError(error)
-    } catch (e) {
-      return ProtocolError.fromError(e)
-    }
+  /**
+   * Classifies `error`. Nonce conflicts and underpriced sends come back as
+   * TRANSACTION_FAILED with the recovery action that repairs them in
+   * `details`; sendWithRecovery applies it when recovery is on.
+   */
+  async handleError(error: unknown): Promise<ProtocolError> {
+    const action = this.getRecoveryAction(error)
+    if (!action) return ProtocolError.fromError(error)
+
+    const message = error instanceof Error ? error.message : String(error)
+    return new ProtocolError(
+      action === 'resync-nonce' ? `Nonce error occurred: ${message}` : `Transaction underpriced: ${message}`,
+      ErrorType.TRANSACTION_FAILED,
+      { recovery: action },
+      { cause: error }
+    )
   }
 
-  async withRetry<T>(
-    operation: () => Promise<T>,
-    config: RetryConfig
+  /**
+   * Sends through `send`, and with recovery enabled repairs failed sends:
+   * a nonce conflict re-syncs the account's pending nonce and resends, an
+   * underpriced transaction is replaced with bumped fees. `fees` are the
+   * fees of the first attempt, if known. Other failures are rethrown as is,
+   * and so is the last one once maxAttempts is reached.
+   */
+  async sendWithRecovery<T>(
+    operation: string,
+    account: Address,
+    send: (overrides: RecoveryOverrides) => Promise<T>,
+    fees?: FeeValues | null
   ): Promise<T> {
-    let lastError: Error | null = null
-    let delay = config.initialDelay
+    if (!this.recovery) return send({})
 
-    for (let attempt = 1; attempt <= config.maxAttempts; attempt++) {
+    let overrides: RecoveryOverrides = {}
+    let currentFees = fees ?? undefined
+    for (let attempt = 1; ; attempt++) {
       try {
-        return await operation()
-      } catch (err) {
-        lastError = err instanceof Error ? err : new Error(String(err))
-        
-        if (attempt === config.maxAttempts) break
-        
-        await new Promise(resolve => setTimeout(resolve, delay))
-        delay = Math.min(
-          delay * (config.backoffFactor || 2),
-          config.maxDelay || 30000
-        )
+        return await send(overrides)
+      } catch (error) {
+        const action = this.getRecoveryAction(error)
+        if (!action) throw error
+
+        const protocolError = ProtocolError.fromError(error)
+        if (attempt >= this.recovery.maxAttempts) {
+          this.report({ action: 'give-up', operation, attempt, error: protocolError })
+          throw error
+        }
+
+        if (action === 'resync-nonce') {
+          const nonce = await this.client.getTransactionCount({ address: account, blockTag: 'pending' })
+          overrides = { ...overrides, nonce }
+          this.report({ action, operation, attempt, error: protocolError, nonce })
+        } else {
+          const current = await this.fees.getFees()
+          currentFees = bumpFees(currentFees ?? current, current, this.recovery.feeBumpFactor)
+          overrides = { nonce: overrides.nonce, ...currentFees }
+          this.report({ action, operation, attempt, error: protocolError, fees: currentFees })
+        }
       }
     }
-
-    throw await this.handleError(lastError)
   }
 
-  private isNonceError(error: any): boolean {
-    return error.message?.includes('nonce') || error.message?.includes('replacement transaction underpriced');
-  }
+  /**
+   * Runs an idempotent read, and with recovery enabled retries it under
+   * `policy` while its failures are retryable. The recovery settings stand
+   * in for maxAttempts and initialDelay when the policy leaves them out.
+   */
+  async read<T>(operation: string, call: () => Promise<T>, policy: RetryPolicy = {}): Promise<T> {
+    if (!this.recovery) return call()
 
-  private async handleNonceError(error: any) {
+    let attempts = 1
     try {
-      const nonce = await this.client.getTransactionCount({ 
-        address: error.account as `0x${string}`
+      return await retry(call, {
+        maxAttempts: this.recovery.maxAttempts,
+        initialDelay: this.recovery.readDelay,
+        ...policy,
+        onRetry: event => {
+          attempts = event.attempt + 1
+          this.report({
+            action: 'retry-read',
+            operation,
+            attempt: event.attempt,
+            error: ProtocolError.fromError(event.error),
+            delay: event.delay
+          })
+          policy.onRetry?.(event)
+        }
       })
-      return { nonce }
-    } catch {
+    } catch (error) {
+      const protocolError = ProtocolError.fromError(error)
+      if (protocolError.retryable) {
+        this.report({ action: 'give-up', operation, attempt: attempts, error: protocolError })
+      }
       throw error
     }
   }
 
-  private isGasError(error: any): boolean {
-    return error.message?.includes('gas') || error.message?.includes('fee');
+  /**
+   * Runs `operation` under `policy` and rethrows its final failure
+   * classified by handleError.
+   */
+  async withRetry<T>(operation: () => Promise<T>, policy: RetryPolicy = {}): Promise<T> {
+    try {
+      return await retry(operation, policy)
+    } catch (error) {
+      throw await this.handleError(error)
+    }
+  }
+
+  private report(event: Omit<RecoveryEvent, 'timestamp'>): void {
+    this.options.onRecovery?.({ ...event, timestamp: Date.now() })
   }
 
-  private async handleGasError() {
-    const gasPrice = await this.client.getGasPrice();
-    return {
-      gasPrice: BigInt(Math.floor(Number(gasPrice) * 1.2)) // Increase by 20%
-    };
+  private getRecoveryAction(error: unknown): 'resync-nonce' | 'bump-fees' | null {
+    if (this.isNonceError(error)) return 'resync-nonce'
+    if (this.isUnderpricedError(error)) return 'bump-fees'
+    return null
   }
 
-  private isNetworkError(error: any): boolean {
-    return error.message?.includes('network') || error.message?.includes('connection');
+  private isNonceError(error: unknown): boolean {
+    if (error instanceof BaseError &&
+      error.walk(cause => cause instanceof NonceTooLowError || cause instanceof NonceTooHighError)) {
+      return true
+    }
+    return /nonce too (low|high)|nonce has already been used|invalid nonce/i.test(
+      error instanceof Error ? error.message : String(error)
+    )
   }
 
-  private async handleNetworkError(error: any) {
-    // Implement network retry logic
-    throw error;
+  private isUnderpricedError(error: unknown): boolean {
+    if (error instanceof BaseError && error.walk(cause => cause instanceof FeeCapTooLowError)) {
+      return true
+    }
+    return /underpriced|fee too low|less than (the )?block base fee/i.test(
+      error instanceof Error ? error.message : String(error)
+    )
   }
-} 
\ No newline at end of file
+}
@@ -1,7 +1,29 @@
+import {
+  type Abi,
+  type Hex,
+  BaseError,
+  ContractFunctionRevertedError,
+  ExecutionRevertedError,
+  HttpRequestError,
+  TimeoutError,
+  TransactionExecutionError,
+  UserRejectedRequestError,
+  WebSocketRequestError,
+  decodeErrorResult
+} from 'viem'
+import { StandardErrorsABI } from '../abis'
+
+/**
+ * Stable error codes. Every error the SDK throws is a ProtocolError (or its
+ * ContractError subclass) carrying one of these as `code`; the string
+ * values never change between releases.
+ */
 export enum ErrorType {
   CONTRACT_ERROR = 'CONTRACT_ERROR',
   VALIDATION_ERROR = 'VALIDATION_ERROR',
   NETWORK_ERROR = 'NETWORK_ERROR',
+  TIMEOUT = 'TIMEOUT',
+  ABORTED = 'ABORTED',
   TRANSACTION_ERROR = 'TRANSACTION_ERROR',
   WALLET_CONNECTION = 'WALLET_CONNECTION',
   CONTRACT_INTERACTION = 'CONTRACT_INTERACTION',
@@ -9,79 +31,332 @@ export enum ErrorType {
   NETWORK_MISMATCH = 'NETWORK_MISMATCH',
   INVALID_CONFIG = 'INVALID_CONFIG',
   UNAUTHORIZED = 'UNAUTHORIZED',
+  USER_REJECTED = 'USER_REJECTED',
+  WALLET_NOT_CONNECTED = 'WALLET_NOT_CONNECTED',
   INITIALIZATION_ERROR = 'INITIALIZATION_ERROR',
   CLIENT_ERROR = 'CLIENT_ERROR',
-  IPFS_ERROR = 'IPFS_ERROR'
+  IPFS_ERROR = 'IPFS_ERROR',
+  UNKNOWN_ERROR = 'UNKNOWN_ERROR'
 }
 
-export class SDKError extends Error {
-  constructor(
-    message: string,
-    public code: typeof ERROR_CODES[keyof typeof ERROR_CODES],
-    public details?: Record<string, any>
-  ) {
-    super(message)
-    this.name = 'SDKError'
-  }
+// Codes whose errors may succeed when the same operation is repeated
+const RETRYABLE_CODES: ReadonlySet<ErrorType> = new Set([
+  ErrorType.NETWORK_ERROR,
+  ErrorType.TIMEOUT
+])
+
+export interface ProtocolErrorOptions {
+  cause?: unknown
+  // Defaults to whether `code` or the cause is a transient failure
+  retryable?: boolean
 }
 
 export class ProtocolError extends Error {
+  // The error this one wraps; follow it for the full chain
+  cause?: unknown
+  retryable: boolean
+
+  /**
+   * A caught error passed as `details` is recorded as the cause.
+   */
   constructor(
     message: string,
     public code: ErrorType,
-    public details?: unknown
+    public details?: unknown,
+    options: ProtocolErrorOptions = {}
   ) {
     super(message)
     this.name = 'ProtocolError'
+    this.cause = options.cause ?? (details instanceof Error ? details : undefined)
+    this.retryable = options.retryable ?? isRetryable(code, this.cause)
+  }
+
+  /**
+   * Message from the current catalog (see setErrorMessages), for showing
+   * to users. `message` stays the technical English description.
+   */
+  get userMessage(): string {
+    return getErrorMessage(this)
   }
 
-  static fromError(error: unknown): ProtocolError {
+  /**
+   * Wraps any thrown value. Reverts become a ContractError, decoded against
+   * `abi` when given; other failures get the closest code.
+   */
+  static fromError(error: unknown, abi?: Abi): ProtocolError {
     if (error instanceof ProtocolError) return error
+    const contractError = decodeContractError(error, abi)
+    if (contractError) return contractError
     return new ProtocolError(
-      error instanceof Error ? error.message : String(error),
-      ErrorType.NETWORK_ERROR // Changed to an existing ErrorType
+      error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : String(error),
+      classifyError(error),
+      undefined,
+      { cause: error }
     )
   }
 }
 
-export const ERROR_CODES = {
-  CONTRACT_ERROR: ErrorType.CONTRACT_ERROR,
-  VALIDATION_ERROR: ErrorType.VALIDATION_ERROR,
-  NETWORK_ERROR: ErrorType.NETWORK_ERROR,
-  TRANSACTION_ERROR: ErrorType.TRANSACTION_ERROR,
-  WALLET_CONNECTION: ErrorType.WALLET_CONNECTION,
-  CONTRACT_INTERACTION: ErrorType.CONTRACT_INTERACTION,
-  TRANSACTION_FAILED: ErrorType.TRANSACTION_FAILED,
-  NETWORK_MISMATCH: ErrorType.NETWORK_MISMATCH,
-  INVALID_CONFIG: ErrorType.INVALID_CONFIG
-} as const
-
-export const ERROR_MESSAGES = {
-  [ERROR_CODES.INVALID_CONFIG]: 'Invalid configuration',
-  [ERROR_CODES.CONTRACT_ERROR]: 'Contract operation failed',
-  [ERROR_CODES.NETWORK_ERROR]: 'Network error occurred',
-  [ERROR_CODES.VALIDATION_ERROR]: 'Validation failed',
-  [ERROR_CODES.TRANSACTION_ERROR]: 'Transaction error occurred',
-  [ERROR_CODES.WALLET_CONNECTION]: 'Wallet connection failed',
-  [ERROR_CODES.CONTRACT_INTERACTION]: 'Contract interaction failed',
-  [ERROR_CODES.TRANSACTION_FAILED]: 'Transaction failed',
-  [ERROR_CODES.NETWORK_MISMATCH]: 'Network mismatch detected'
-} as const
+// A wrapper is as retryable as what it wraps: a revert stays final even
+// under NETWORK_ERROR, a dropped connection stays transient under IPFS_ERROR
+function isRetryable(code: ErrorType, cause: unknown): boolean {
+  if (cause instanceof ProtocolError) return cause.retryable
+  if (cause !== undefined && decodeContractError(cause)) return false
+  return RETRYABLE_CODES.has(code) || (cause !== undefined && RETRYABLE_CODES.has(classifyError(cause)))
+}
+
+function classifyError(error: unknown): ErrorType {
+  if (error instanceof BaseError) {
+    if (error.walk(cause => cause instanceof UserRejectedRequestError)) return ErrorType.USER_REJECTED
+    if (error.walk(cause => cause instanceof TimeoutError)) return ErrorType.TIMEOUT
+    if (error.walk(cause => cause instanceof HttpRequestError || cause instanceof WebSocketRequestError)) {
+      return ErrorType.NETWORK_ERROR
+    }
+    if (error.walk(cause => cause instanceof TransactionExecutionError)) return ErrorType.TRANSACTION_ERROR
+  }
+  if (error instanceof Error && error.name === 'AbortError') return ErrorType.ABORTED
+  const message = error instanceof Error ? error.message : String(error)
+  if (/timed? ?out/i.test(message)) return ErrorType.TIMEOUT
+  if (/network|connection|socket|ECONN|fetch failed|rate limit/i.test(message)) return ErrorType.NETWORK_ERROR
+  return ErrorType.UNKNOWN_ERROR
+}
 
 export enum ContractErrorType {
   VALIDATION_FAILED = 'VALIDATION_FAILED',
   INSUFFICIENT_BALANCE = 'INSUFFICIENT_BALANCE',
   UNAUTHORIZED_ACCESS = 'UNAUTHORIZED_ACCESS',
-  INVALID_PARAMETERS = 'INVALID_PARAMETERS'
+  INVALID_PARAMETERS = 'INVALID_PARAMETERS',
+  INSUFFICIENT_ALLOWANCE = 'INSUFFICIENT_ALLOWANCE',
+  NOT_FOUND = 'NOT_FOUND',
+  ALREADY_EXISTS = 'ALREADY_EXISTS',
+  LIMIT_EXCEEDED = 'LIMIT_EXCEEDED',
+  INACTIVE = 'INACTIVE',
+  // Panic(uint256): assertion, overflow, out-of-bounds access...
+  PANIC = 'PANIC',
+  // Reverted without data, or with data no known ABI describes
+  UNKNOWN_REVERT = 'UNKNOWN_REVERT'
 }
 
-export class ContractError extends Error {
+export interface ContractErrorDetails {
+  // Custom error name, or 'Error' / 'Panic' for the built-in ones
+  errorName?: string
+  args?: readonly unknown[]
+  // args keyed by the ABI parameter names, when they have names
+  namedArgs?: Record<string, unknown>
+  // Error(string) message, panic description or custom error name
+  reason?: string
+  panicCode?: number
+  data?: Hex
+  cause?: unknown
+}
+
+/**
+ * A decoded contract revert. Branch on `type` for the broad category and
+ * on `details.errorName` for the exact error.
+ */
+export class ContractError extends ProtocolError {
   constructor(
     public type: ContractErrorType,
     message: string,
-    public details?: any
+    public details: ContractErrorDetails = {}
   ) {
-    super(message)
+    super(message, ErrorType.CONTRACT_ERROR, details, { cause: details.cause, retryable: false })
     this.name = 'ContractError'
   }
-} 
\ No newline at end of file
+}
+
+// Checked in order against the revert string or the custom error name
+// split into words, e.g. NotCollectionAdmin -> "not collection admin"
+const CONTRACT_ERROR_RULES: [RegExp, ContractErrorType][] = [
+  [/not (the )?(collection )?admin|unauthori[sz]ed|not authori[sz]ed|not (the )?owner|caller is not|only (the )?owner|missing (role|approval)|incorrect owner|insufficient approval|forbidden|not allowed/, ContractErrorType.UNAUTHORIZED_ACCESS],
+  [/allowance/, ContractErrorType.INSUFFICIENT_ALLOWANCE],
+  [/insufficient|exceeds balance|not enough/, ContractErrorType.INSUFFICIENT_BALANCE],
+  [/max|exceed|limit|too (many|much|large)/, ContractErrorType.LIMIT_EXCEEDED],
+  [/nonexistent|not exist|does not exist|not found|unknown/, ContractErrorType.NOT_FOUND],
+  [/already|exists|duplicate/, ContractErrorType.ALREADY_EXISTS],
+  [/not active|inactive|pause|deactivated|disabled|locked/, ContractErrorType.INACTIVE],
+  [/validation|validator|not validated/, ContractErrorType.VALIDATION_FAILED],
+  [/invalid|zero address|must|empty|mismatch|expired/, ContractErrorType.INVALID_PARAMETERS]
+]
+
+// Solidity's Panic(uint256) codes
+const PANIC_REASONS: Record<number, string> = {
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division or modulo by zero',
+  0x21: 'invalid enum value',
+  0x22: 'invalid storage byte array',
+  0x31: 'pop on an empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+  0x51: 'call to an uninitialized function'
+}
+
+function classifyRevert(text: string): ContractErrorType {
+  const words = text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+  const rule = CONTRACT_ERROR_RULES.find(([pattern]) => pattern.test(words))
+  return rule ? rule[1] : ContractErrorType.UNKNOWN_REVERT
+}
+
+function isHex(value: unknown): value is Hex {
+  return typeof value === 'string' && /^0x[0-9a-fA-F]*$/.test(value)
+}
+
+// RPC errors carry revert data as `data` or `data.data`
+function findRevertData(error: BaseError): Hex | undefined {
+  let data: Hex | undefined
+  error.walk(cause => {
+    const value = (cause as { data?: unknown }).data
+    const candidate = isHex(value) ? value : (value as { data?: unknown } | undefined)?.data
+    if (isHex(candidate) && candidate.length >= 10) data = candidate
+    return data !== undefined
+  })
+  return data
+}
+
+function decodeRevertData(
+  data: Hex,
+  abi: Abi
+): { errorName: string; args?: readonly unknown[]; inputs?: readonly { name?: string }[] } | null {
+  try {
+    const decoded = decodeErrorResult({ abi: [...abi, ...StandardErrorsABI], data })
+    const inputs = 'inputs' in decoded.abiItem ? decoded.abiItem.inputs : []
+    return { errorName: decoded.errorName, args: decoded.args, inputs }
+  } catch {
+    return null
+  }
+}
+
+function formatArg(value: unknown): string {
+  return typeof value === 'bigint' ? value.toString() : JSON.stringify(value) ?? String(value)
+}
+
+/**
+ * Turns a revert into a ContractError: custom errors are decoded against
+ * `abi` and the standard OpenZeppelin errors, Error(string) and
+ * Panic(uint256) are recognized. Returns null for anything that is not a
+ * revert.
+ */
+export function decodeContractError(error: unknown, abi: Abi = []): ContractError | null {
+  if (!(error instanceof BaseError)) return null
+
+  const reverted = error.walk(cause => cause instanceof ContractFunctionRevertedError)
+  if (!reverted && !error.walk(cause => cause instanceof ExecutionRevertedError)) return null
+
+  let decoded: ReturnType<typeof decodeRevertData> = null
+  let data: Hex | undefined
+  if (reverted instanceof ContractFunctionRevertedError && reverted.data) {
+    decoded = {
+      errorName: reverted.data.errorName,
+      args: reverted.data.args,
+      inputs: 'inputs' in reverted.data.abiItem ? reverted.data.abiItem.inputs : []
+    }
+    data = reverted.raw
+  } else {
+    data = reverted instanceof ContractFunctionRevertedError && reverted.raw
+      ? reverted.raw
+      : findRevertData(error)
+    decoded = data ? decodeRevertData(data, abi) : null
+  }
+
+  if (!decoded) {
+    const reason = (reverted instanceof ContractFunctionRevertedError && reverted.reason) || error.shortMessage
+    return new ContractError(
+      data ? ContractErrorType.UNKNOWN_REVERT : classifyRevert(reason),
+      `Contract reverted: ${reason}`,
+      { reason, data, cause: error }
+    )
+  }
+
+  const { errorName, args = [], inputs = [] } = decoded
+  const namedArgs = inputs.every(input => input.name)
+    ? Object.fromEntries(inputs.map((input, i) => [input.name as string, args[i]]))
+    : undefined
+
+  if (errorName === 'Error') {
+    const reason = String(args[0])
+    return new ContractError(classifyRevert(reason), `Contract reverted: ${reason}`, {
+      errorName, args, reason, data, cause: error
+    })
+  }
+
+  if (errorName === 'Panic') {
+    const panicCode = Number(args[0])
+    const reason = PANIC_REASONS[panicCode] ?? `panic code 0x${panicCode.toString(16)}`
+    return new ContractError(ContractErrorType.PANIC, `Contract panicked: ${reason}`, {
+      errorName, args, reason, panicCode, data, cause: error
+    })
+  }
+
+  return new ContractError(
+    classifyRevert(errorName),
+    `Contract reverted with ${errorName}(${args.map(formatArg).join(', ')})`,
+    { errorName, args, namedArgs, reason: errorName, data, cause: error }
+  )
+}
+
+export type ErrorMessage = string | ((error: ProtocolError) => string)
+
+// Contract errors are looked up by ContractErrorType first, then by code
+export type ErrorMessageCatalog = Partial<Record<ErrorType | ContractErrorType, ErrorMessage>>
+
+/**
+ * Default English messages for every code, used for anything the active
+ * catalog leaves out.
+ */
+export const ERROR_MESSAGES: Readonly<Record<ErrorType | ContractErrorType, string>> = {
+  [ErrorType.CONTRACT_ERROR]: 'The contract rejected the operation',
+  [ErrorType.VALIDATION_ERROR]: 'The request is not valid',
+  [ErrorType.NETWORK_ERROR]: 'Could not reach the network',
+  [ErrorType.TIMEOUT]: 'The network took too long to respond',
+  [ErrorType.ABORTED]: 'The operation was cancelled',
+  [ErrorType.TRANSACTION_ERROR]: 'The transaction could not be sent',
+  [ErrorType.WALLET_CONNECTION]: 'Wallet connection failed',
+  [ErrorType.CONTRACT_INTERACTION]: 'Contract interaction failed',
+  [ErrorType.TRANSACTION_FAILED]: 'The transaction failed',
+  [ErrorType.NETWORK_MISMATCH]: 'The wallet is connected to a different network',
+  [ErrorType.INVALID_CONFIG]: 'Invalid configuration',
+  [ErrorType.UNAUTHORIZED]: 'This account is not allowed to do that',
+  [ErrorType.USER_REJECTED]: 'The request was rejected in the wallet',
+  [ErrorType.WALLET_NOT_CONNECTED]: 'Connect a wallet to continue',
+  [ErrorType.INITIALIZATION_ERROR]: 'The SDK failed to start',
+  [ErrorType.CLIENT_ERROR]: 'A local storage or client error occurred',
+  [ErrorType.IPFS_ERROR]: 'Could not store or retrieve the document',
+  [ErrorType.UNKNOWN_ERROR]: 'Something went wrong',
+  [ContractErrorType.VALIDATION_FAILED]: 'The deed has not passed validation',
+  [ContractErrorType.INSUFFICIENT_BALANCE]: 'The balance is too low',
+  [ContractErrorType.UNAUTHORIZED_ACCESS]: 'This account is not allowed to do that',
+  [ContractErrorType.INVALID_PARAMETERS]: 'Some of the values are not valid',
+  [ContractErrorType.INSUFFICIENT_ALLOWANCE]: 'The token allowance is too low',
+  [ContractErrorType.NOT_FOUND]: 'The item does not exist',
+  [ContractErrorType.ALREADY_EXISTS]: 'The item already exists',
+  [ContractErrorType.LIMIT_EXCEEDED]: 'A limit would be exceeded',
+  [ContractErrorType.INACTIVE]: 'The item is not active',
+  [ContractErrorType.PANIC]: 'The contract hit an internal error',
+  [ContractErrorType.UNKNOWN_REVERT]: 'The contract rejected the operation'
+}
+
+let activeCatalog: ErrorMessageCatalog = {}
+
+/**
+ * Replaces the message catalog, e.g. with translations. Codes missing from
+ * `catalog` fall back to ERROR_MESSAGES; pass null to restore the defaults.
+ */
+export function setErrorMessages(catalog: ErrorMessageCatalog | null): void {
+  activeCatalog = catalog ?? {}
+}
+
+/**
+ * User-facing message for any thrown value under the active catalog.
+ */
+export function getErrorMessage(error: unknown): string {
+  const protocolError = ProtocolError.fromError(error)
+  const entry =
+    (protocolError instanceof ContractError ? activeCatalog[protocolError.type] : undefined) ??
+    activeCatalog[protocolError.code] ??
+    (protocolError instanceof ContractError ? ERROR_MESSAGES[protocolError.type] : undefined) ??
+    ERROR_MESSAGES[protocolError.code]
+  return typeof entry === 'function' ? entry(protocolError) : entry
+}
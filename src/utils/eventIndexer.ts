@@ -0,0 +1,256 @@
+import {
+  type PublicClient,
+  type Log,
+  type Address,
+  type Abi
+} from 'viem'
+import { EventManager, PROTOCOL_EVENT_ABIS } from './events'
+import { ProtocolError } from './errors'
+import type { ContractAddresses } from '../config/types'
+import type {
+  DeedNFTEvents,
+  SubdivideEvents,
+  FractionalizeEvents,
+  ValidatorEvents,
+  FundManagerEvents,
+  ProtocolEventContract
+} from '../types/events'
+
+/**
+ * Persists the last fully indexed block per contract/event so an
+ * interrupted run resumes where it stopped.
+ */
+export interface CheckpointStore {
+  get(key: string): Promise<bigint | null>
+  set(key: string, blockNumber: bigint): Promise<void>
+}
+
+export class MemoryCheckpointStore implements CheckpointStore {
+  private checkpoints: Map<string, bigint> = new Map()
+
+  async get(key: string): Promise<bigint | null> {
+    return this.checkpoints.get(key) ?? null
+  }
+
+  async set(key: string, blockNumber: bigint): Promise<void> {
+    this.checkpoints.set(key, blockNumber)
+  }
+}
+
+export class LocalStorageCheckpointStore implements CheckpointStore {
+  constructor(private prefix: string = 'protocol-sdk:checkpoint:') {}
+
+  async get(key: string): Promise<bigint | null> {
+    const value = globalThis.localStorage?.getItem(this.prefix + key)
+    return value ? BigInt(value) : null
+  }
+
+  async set(key: string, blockNumber: bigint): Promise<void> {
+    globalThis.localStorage?.setItem(this.prefix + key, blockNumber.toString())
+  }
+}
+
+export interface EventIndexerOptions {
+  store?: CheckpointStore
+  initialChunkSize?: bigint
+  minChunkSize?: bigint
+  maxChunkSize?: bigint
+}
+
+export interface IndexRange {
+  fromBlock: bigint
+  toBlock: bigint
+}
+
+export interface IndexEventsParams {
+  address: Address
+  abi: Abi
+  eventName: string
+  // First block to scan when there is no checkpoint, usually the deployment block
+  fromBlock: bigint
+  toBlock?: bigint
+  // Indexed argument filter; the checkpoint key does not include it
+  args?: Record<string, unknown>
+  onLogs: (logs: Log[], range: IndexRange) => void | Promise<void>
+}
+
+export type ProtocolIndexedContract = ProtocolEventContract
+
+export interface IndexProtocolEventsParams {
+  fromBlock: bigint
+  toBlock?: bigint
+  contracts?: ProtocolIndexedContract[]
+  onLogs: (
+    contract: ProtocolIndexedContract,
+    eventName: string,
+    logs: Log[],
+    range: IndexRange
+  ) => void | Promise<void>
+}
+
+const PROTOCOL_EVENTS: {
+  [K in ProtocolIndexedContract]: string[]
+} = {
+  deedNFT: ['DeedCreated', 'DeedValidated', 'Transfer'] satisfies (keyof DeedNFTEvents)[],
+  subdivide: [
+    'SubdivisionCreated',
+    'UnitMinted',
+    'UnitBurned',
+    'SubdivisionDeactivated',
+    'CollectionAdminTransferred',
+    'TransferSingle',
+    'TransferBatch'
+  ] satisfies (keyof SubdivideEvents)[],
+  fractionalize: [
+    'FractionCreated',
+    'SharesTransferred',
+    'SharesMinted',
+    'SharesBurned',
+    'UnlockApproved',
+    'AssetUnlocked'
+  ] satisfies (keyof FractionalizeEvents)[],
+  validatorRegistry: ['ValidatorRegistered', 'ValidatorStatusUpdated'] satisfies (keyof ValidatorEvents)[],
+  fundManager: [
+    'DeedMinted',
+    'ServiceFeesWithdrawn',
+    'ServiceFeeUpdated',
+    'TokenWhitelisted',
+    'TokenRemovedFromWhitelist'
+  ] satisfies (keyof FundManagerEvents)[]
+}
+
+// Block-range and result-size rejections only; rate limits often say
+// "more than" or "limit exceeded" too, and belong to the retry policy
+const RANGE_ERROR_PATTERNS = [
+  'block range',
+  'range is too large',
+  'range too large',
+  'query returned more than',
+  'too many results',
+  'response size',
+  'is limited to',
+  'query timeout'
+]
+
+const RATE_LIMIT_PATTERN = /rate limit|too many requests|429|request count|requests per/i
+
+// Providers word this differently; check the whole wrapped error chain
+function isRangeError(error: unknown): boolean {
+  let current: unknown = error
+  for (let depth = 0; current && depth < 5; depth++) {
+    const message = current instanceof Error ? current.message : String(current)
+    if (RATE_LIMIT_PATTERN.test(message)) return false
+    if (RANGE_ERROR_PATTERNS.some(pattern => message.toLowerCase().includes(pattern))) {
+      return true
+    }
+    current = (current as { details?: unknown; cause?: unknown }).details ??
+      (current as { cause?: unknown }).cause
+  }
+  return false
+}
+
+/**
+ * Walks historical logs in block chunks through EventManager.getPastEvents.
+ * The chunk halves whenever the provider rejects a range and grows back
+ * after successful requests.
+ */
+export class EventIndexer {
+  private store: CheckpointStore
+  private initialChunkSize: bigint
+  private minChunkSize: bigint
+  private maxChunkSize: bigint
+
+  constructor(
+    private events: EventManager,
+    private publicClient: PublicClient,
+    options: EventIndexerOptions = {}
+  ) {
+    this.store = options.store ?? new MemoryCheckpointStore()
+    this.initialChunkSize = options.initialChunkSize ?? 2000n
+    this.minChunkSize = options.minChunkSize ?? 10n
+    this.maxChunkSize = options.maxChunkSize ?? 100000n
+  }
+
+  static checkpointKey(address: Address, eventName: string): string {
+    return `${address.toLowerCase()}:${eventName}`
+  }
+
+  async getCheckpoint(address: Address, eventName: string): Promise<bigint | null> {
+    return this.store.get(EventIndexer.checkpointKey(address, eventName))
+  }
+
+  /**
+   * Indexes one event up to toBlock (default: latest) and returns the last
+   * indexed block. The checkpoint is saved after every chunk's onLogs.
+   */
+  async indexEvents(params: IndexEventsParams): Promise<bigint> {
+    const key = EventIndexer.checkpointKey(params.address, params.eventName)
+    const toBlock = params.toBlock ?? await this.publicClient.getBlockNumber()
+    const checkpoint = await this.store.get(key)
+
+    let fromBlock = checkpoint !== null ? checkpoint + 1n : params.fromBlock
+    let chunkSize = this.initialChunkSize
+
+    while (fromBlock <= toBlock) {
+      const chunkEnd = fromBlock + chunkSize - 1n < toBlock ? fromBlock + chunkSize - 1n : toBlock
+
+      let logs: Log[]
+      try {
+        logs = await this.events.getPastEvents(
+          params.address,
+          params.abi,
+          params.eventName,
+          fromBlock,
+          chunkEnd,
+          params.args
+        )
+      } catch (error) {
+        if (!isRangeError(error)) throw error
+
+        if (chunkSize <= this.minChunkSize) {
+          throw new ProtocolError(
+            `Provider rejected the minimum block range of ${this.minChunkSize} for ${params.eventName}`,
+            ProtocolError.fromError(error).code,
+            error
+          )
+        }
+        chunkSize = chunkSize / 2n > this.minChunkSize ? chunkSize / 2n : this.minChunkSize
+        continue
+      }
+
+      await params.onLogs(logs, { fromBlock, toBlock: chunkEnd })
+      await this.store.set(key, chunkEnd)
+
+      fromBlock = chunkEnd + 1n
+      chunkSize = chunkSize * 2n < this.maxChunkSize ? chunkSize * 2n : this.maxChunkSize
+    }
+
+    return checkpoint !== null && checkpoint > toBlock ? checkpoint : toBlock
+  }
+
+  /**
+   * Indexes every event declared in types/events.ts across the protocol
+   * contracts, or only the ones listed in params.contracts.
+   */
+  async indexProtocolEvents(
+    addresses: ContractAddresses,
+    params: IndexProtocolEventsParams
+  ): Promise<void> {
+    const toBlock = params.toBlock ?? await this.publicClient.getBlockNumber()
+    const contracts = params.contracts ?? (Object.keys(PROTOCOL_EVENTS) as ProtocolIndexedContract[])
+
+    for (const contract of contracts) {
+      const abi = PROTOCOL_EVENT_ABIS[contract]
+      for (const eventName of PROTOCOL_EVENTS[contract]) {
+        await this.indexEvents({
+          address: addresses[contract],
+          abi,
+          eventName,
+          fromBlock: params.fromBlock,
+          toBlock,
+          onLogs: (logs, range) => params.onLogs(contract, eventName, logs, range)
+        })
+      }
+    }
+  }
+}
@@ -3,23 +3,106 @@ import {
   type Log,
   type Address,
   type Abi,
+  type AbiEvent,
   type GetContractEventsParameters,
   getContract
 } from 'viem'
 import { ProtocolError, ErrorType } from './errors'
+import { retry, getRetryPolicy, type RetryPolicy } from './retry'
+import {
+  DeedNFTABI,
+  SubdivideABI,
+  FractionalizeABI,
+  ValidatorRegistryABI,
+  FundManagerABI
+} from '../abis'
+import type { ContractAddresses } from '../config/types'
+import type {
+  ProtocolEventContract,
+  ProtocolEventName,
+  ProtocolEventListener
+} from '../types/events'
 
 export type EventCallback = (log: Log) => void
 export type ContractEvents = Record<string, Abi>
 
+export const PROTOCOL_EVENT_ABIS: Record<ProtocolEventContract, Abi> = {
+  deedNFT: DeedNFTABI,
+  subdivide: SubdivideABI,
+  fractionalize: FractionalizeABI,
+  validatorRegistry: ValidatorRegistryABI,
+  fundManager: FundManagerABI
+}
+
 export class EventManager {
   private watchers: Map<string, () => void> = new Map()
-  private listeners: Map<string, Function[]> = new Map()
+  private listeners: Map<string, Array<(...args: unknown[]) => void>> = new Map()
+  private nextListenerId = 0
+  private retryPolicy: RetryPolicy
+
+  constructor(
+    private publicClient: PublicClient,
+    private contracts?: ContractAddresses,
+    retryPolicy?: RetryPolicy
+  ) {
+    this.retryPolicy = getRetryPolicy('events', { events: retryPolicy })
+  }
+
+  /**
+   * Subscribes to a protocol event with args decoded against the contract
+   * ABI and passed positionally, followed by the raw log. Returns an
+   * unsubscribe function.
+   *
+   * @example
+   * sdk.events.on('deedNFT', 'DeedValidated', (deedId, validator, log) => {})
+   */
+  on<C extends ProtocolEventContract, E extends ProtocolEventName<C>>(
+    contract: C,
+    eventName: E,
+    listener: ProtocolEventListener<C, E>
+  ): () => void {
+    const address = this.contracts?.[contract]
+    if (!address) {
+      throw new ProtocolError(
+        `No address configured for ${contract}`,
+        ErrorType.INVALID_CONFIG
+      )
+    }
+
+    const abi: Abi = PROTOCOL_EVENT_ABIS[contract]
+    const abiEvent = abi.find(
+      (item): item is AbiEvent => item.type === 'event' && item.name === eventName
+    )
+    if (!abiEvent) {
+      throw new ProtocolError(
+        `Event ${eventName} is not in the ${contract} ABI`,
+        ErrorType.INVALID_CONFIG
+      )
+    }
 
-  constructor(private publicClient: PublicClient) {}
+    const emit = listener as unknown as (...args: unknown[]) => void
+    const unwatch = this.publicClient.watchContractEvent({
+      address,
+      abi,
+      eventName: eventName as string,
+      strict: true,
+      onLogs: logs => {
+        logs.forEach(log => {
+          const args = (log as Log & { args: Record<string, unknown> }).args
+          const positional = abiEvent.inputs.map(input => args[input.name ?? ''])
+          emit(...positional, log)
+        })
+      }
+    })
+
+    const id = `${contract}-${eventName}-${this.nextListenerId++}`
+    this.watchers.set(id, unwatch)
+    return () => this.unsubscribe(id)
+  }
 
   async getLogs(params: GetContractEventsParameters): Promise<Log[]> {
     try {
-      return await this.publicClient.getContractEvents(params)
+      return await retry(() => this.publicClient.getContractEvents(params), this.retryPolicy)
     } catch (error) {
       throw ProtocolError.fromError(error)
     }
@@ -77,11 +160,7 @@ export class EventManager {
       
       return subscriptionId
     } catch (error) {
-      throw new ProtocolError(
-        ErrorType.CONTRACT_ERROR,
-        ErrorType.CONTRACT_ERROR,
-        error
-      )
+      throw ProtocolError.fromError(error, abi)
     }
   }
 
@@ -98,26 +177,25 @@ export class EventManager {
     abi: Abi,
     eventName: string,
     fromBlock: bigint,
-    toBlock: bigint
+    toBlock: bigint,
+    args?: Record<string, unknown>
   ): Promise<Log[]> {
     try {
-      return await this.publicClient.getContractEvents({
+      return await retry(() => this.publicClient.getContractEvents({
         address,
         abi,
         eventName,
+        args,
         fromBlock,
         toBlock
-      })
+      }), this.retryPolicy)
     } catch (error) {
-      throw new ProtocolError(
-        ErrorType.CONTRACT_ERROR,
-        ErrorType.CONTRACT_ERROR,
-        error
-      )
+      throw ProtocolError.fromError(error, abi)
     }
   }
 
   removeAllListeners(): void {
+    this.cleanup()
     this.listeners.clear()
   }
 } 
\ No newline at end of file
@@ -0,0 +1,217 @@
+import { type PublicClient } from 'viem'
+import { ProtocolError, ErrorType } from './errors'
+import { DEFAULT_GAS_LIMIT, GAS_PRICE_INCREASE_FACTOR } from '../config/constants'
+
+export type FeeSpeed = 'slow' | 'standard' | 'fast'
+
+export type FeeValues =
+  | { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+  | { gasPrice: bigint }
+
+export interface FeeStrategyContext {
+  speed: FeeSpeed
+  publicClient: PublicClient
+  // The built-in preset for any speed, for strategies that only adjust it
+  getPreset: (speed: FeeSpeed) => Promise<FeeValues>
+}
+
+/**
+ * Custom fee source, e.g. an external gas oracle. Caps from the network's
+ * GasPolicy still apply to whatever it returns.
+ */
+export type FeeStrategy = (context: FeeStrategyContext) => Promise<FeeValues> | FeeValues
+
+/**
+ * Per-network fee settings, set as NetworkConfig.gasPolicy.
+ */
+export interface GasPolicy {
+  defaultSpeed?: FeeSpeed
+  // Upper bounds; fees above them are lowered, which may delay inclusion
+  maxFeePerGas?: bigint
+  maxPriorityFeePerGas?: bigint
+  gasPrice?: bigint
+  // Floor for the priority fee on chains where low tips are ignored
+  minPriorityFeePerGas?: bigint
+  // Use gasPrice on chains without EIP-1559
+  legacy?: boolean
+  strategy?: FeeStrategy
+  // Applied to every transaction on this network; per-call values win
+  overrides?: Pick<TransactionOverrides, 'speed' | 'maxFeePerGas' | 'maxPriorityFeePerGas' | 'gasPrice'>
+}
+
+/**
+ * Per-call transaction settings. Explicit fee values win over `speed` and
+ * any strategy.
+ */
+export interface TransactionOverrides {
+  speed?: FeeSpeed
+  strategy?: FeeStrategy
+  maxFeePerGas?: bigint
+  maxPriorityFeePerGas?: bigint
+  gasPrice?: bigint
+  gas?: bigint
+  value?: bigint
+  nonce?: number
+}
+
+export type FeeEstimate = FeeValues & {
+  // Worst-case cost of a transaction using `gas` units at these fees
+  maxCost: bigint
+}
+
+// Reward percentile of recent blocks used as the priority fee, and the
+// headroom over the next base fee for each preset
+const PRESETS: Record<FeeSpeed, { percentile: number; baseFeeMultiplier: number }> = {
+  slow: { percentile: 10, baseFeeMultiplier: GAS_PRICE_INCREASE_FACTOR },
+  standard: { percentile: 50, baseFeeMultiplier: GAS_PRICE_INCREASE_FACTOR * GAS_PRICE_INCREASE_FACTOR },
+  fast: { percentile: 90, baseFeeMultiplier: 2 }
+}
+
+const FEE_SPEEDS: FeeSpeed[] = ['slow', 'standard', 'fast']
+const FEE_HISTORY_BLOCKS = 10
+
+function multiply(value: bigint, factor: number): bigint {
+  return value * BigInt(Math.round(factor * 1000)) / 1000n
+}
+
+/**
+ * Fees for a replacement transaction: `previous` raised by `factor`, or the
+ * `current` network fees when those are higher already.
+ */
+export function bumpFees(previous: FeeValues, current: FeeValues, factor: number = GAS_PRICE_INCREASE_FACTOR): FeeValues {
+  const higher = (a: bigint, b: bigint) => (a > b ? a : b)
+  if ('gasPrice' in previous) {
+    const currentPrice = 'gasPrice' in current ? current.gasPrice : current.maxFeePerGas
+    return { gasPrice: higher(multiply(previous.gasPrice, factor), currentPrice) }
+  }
+  const currentFees = 'gasPrice' in current
+    ? { maxFeePerGas: current.gasPrice, maxPriorityFeePerGas: current.gasPrice }
+    : current
+  return {
+    maxFeePerGas: higher(multiply(previous.maxFeePerGas, factor), currentFees.maxFeePerGas),
+    maxPriorityFeePerGas: higher(multiply(previous.maxPriorityFeePerGas, factor), currentFees.maxPriorityFeePerGas)
+  }
+}
+
+function median(values: bigint[]): bigint {
+  if (values.length === 0) return 0n
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+function min(a: bigint, b: bigint | undefined): bigint {
+  return b !== undefined && b < a ? b : a
+}
+
+/**
+ * Fee presets from eth_feeHistory, shaped by the network's GasPolicy.
+ * Shared by every contract through ContractOptions.fees.
+ */
+export class FeeManager {
+  constructor(
+    private publicClient: PublicClient,
+    private policy: GasPolicy = {}
+  ) {}
+
+  getPolicy(): GasPolicy {
+    return this.policy
+  }
+
+  /**
+   * Fees for one transaction: explicit overrides (per-call, then network),
+   * else the strategy, else the preset for the requested speed.
+   */
+  async getFees(callOverrides: TransactionOverrides = {}): Promise<FeeValues> {
+    const overrides = { ...this.policy.overrides, ...callOverrides }
+    if (overrides.gasPrice !== undefined) {
+      return { gasPrice: overrides.gasPrice }
+    }
+    if (overrides.maxFeePerGas !== undefined && overrides.maxPriorityFeePerGas !== undefined) {
+      return { maxFeePerGas: overrides.maxFeePerGas, maxPriorityFeePerGas: overrides.maxPriorityFeePerGas }
+    }
+
+    const speed = overrides.speed ?? this.policy.defaultSpeed ?? 'standard'
+    const strategy = overrides.strategy ?? this.policy.strategy
+    const fees = strategy
+      ? await strategy({ speed, publicClient: this.publicClient, getPreset: next => this.getPreset(next) })
+      : await this.getPreset(speed)
+
+    // A single explicit value is kept and the other one filled in
+    if ('maxFeePerGas' in fees) {
+      const capped = this.applyCaps(fees)
+      return {
+        maxFeePerGas: overrides.maxFeePerGas ?? capped.maxFeePerGas,
+        maxPriorityFeePerGas: min(
+          overrides.maxPriorityFeePerGas ?? capped.maxPriorityFeePerGas,
+          overrides.maxFeePerGas ?? capped.maxFeePerGas
+        )
+      }
+    }
+    return this.applyCaps(fees)
+  }
+
+  /**
+   * All three presets with the worst-case cost of a `gas`-unit transaction.
+   */
+  async getFeeEstimates(gas: bigint = BigInt(DEFAULT_GAS_LIMIT)): Promise<Record<FeeSpeed, FeeEstimate>> {
+    const fees = await Promise.all(FEE_SPEEDS.map(speed => this.getFees({ speed })))
+    return Object.fromEntries(FEE_SPEEDS.map((speed, i) => {
+      const value = fees[i]
+      const perGas = 'maxFeePerGas' in value ? value.maxFeePerGas : value.gasPrice
+      return [speed, { ...value, maxCost: perGas * gas }]
+    })) as Record<FeeSpeed, FeeEstimate>
+  }
+
+  private async getPreset(speed: FeeSpeed): Promise<FeeValues> {
+    try {
+      if (this.policy.legacy) {
+        return { gasPrice: await this.getLegacyPrice(speed) }
+      }
+
+      const history = await this.publicClient.getFeeHistory({
+        blockCount: FEE_HISTORY_BLOCKS,
+        rewardPercentiles: FEE_SPEEDS.map(preset => PRESETS[preset].percentile)
+      })
+      // The last entry is the base fee of the next block; chains without
+      // EIP-1559 report none
+      const baseFee = history.baseFeePerGas[history.baseFeePerGas.length - 1]
+      if (!baseFee) {
+        return { gasPrice: await this.getLegacyPrice(speed) }
+      }
+
+      const column = FEE_SPEEDS.indexOf(speed)
+      let priorityFee = median((history.reward ?? []).map(rewards => rewards[column]))
+      if (this.policy.minPriorityFeePerGas !== undefined && priorityFee < this.policy.minPriorityFeePerGas) {
+        priorityFee = this.policy.minPriorityFeePerGas
+      }
+
+      return {
+        maxFeePerGas: multiply(baseFee, PRESETS[speed].baseFeeMultiplier) + priorityFee,
+        maxPriorityFeePerGas: priorityFee
+      }
+    } catch (error) {
+      throw new ProtocolError(
+        `Failed to estimate ${speed} fees`,
+        ErrorType.NETWORK_ERROR,
+        error
+      )
+    }
+  }
+
+  private async getLegacyPrice(speed: FeeSpeed): Promise<bigint> {
+    const gasPrice = await this.publicClient.getGasPrice()
+    const steps = FEE_SPEEDS.indexOf(speed)
+    return multiply(gasPrice, Math.pow(GAS_PRICE_INCREASE_FACTOR, steps))
+  }
+
+  private applyCaps<T extends FeeValues>(fees: T): T {
+    if ('gasPrice' in fees) {
+      return { gasPrice: min(fees.gasPrice, this.policy.gasPrice) } as T
+    }
+    const maxFeePerGas = min(fees.maxFeePerGas, this.policy.maxFeePerGas)
+    return {
+      maxFeePerGas,
+      maxPriorityFeePerGas: min(min(fees.maxPriorityFeePerGas, this.policy.maxPriorityFeePerGas), maxFeePerGas)
+    } as T
+  }
+}
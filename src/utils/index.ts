@@ -1,15 +1,41 @@
 export * from '../config/constants';
 export * from './errorHandler';
 export * from './events';
+export * from './eventIndexer';
+export * from './deedHistory';
+export * from './bulkMint';
+export * from './validators';
+export * from './agreements';
 export * from './transactions';
 export * from './wallet';
+export * from './signers';
+export * from './multicallBatcher';
 export * from './ipfs';
+export * from './storage';
 export * from '../config';
 export * from './transactionQueue';
+export * from './queueStore';
+export * from './fees';
+export * from './retry';
 export { WalletManager } from './wallet';
 export { TransactionManager } from './transactions';
 export { EventManager } from './events';
 export { TransactionQueue } from './transactionQueue';
 export { NetworkMonitor } from './networkMonitor';
 export { ErrorHandler } from './errorHandler';
-export { ProtocolError, ErrorType, ERROR_CODES } from './errors'; 
\ No newline at end of file
+export {
+  ProtocolError,
+  ErrorType,
+  ERROR_MESSAGES,
+  ContractError,
+  ContractErrorType,
+  decodeContractError,
+  setErrorMessages,
+  getErrorMessage
+} from './errors';
+export type {
+  ContractErrorDetails,
+  ProtocolErrorOptions,
+  ErrorMessage,
+  ErrorMessageCatalog
+} from './errors'; 
\ No newline at end of file
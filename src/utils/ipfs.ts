@@ -1,55 +1,46 @@
 import type { Blockstore } from 'interface-blockstore'
-import { MemoryBlockstore } from 'blockstore-core/memory'
+import type { CID } from 'multiformats/cid'
 import { ProtocolError, ErrorType } from './errors'
-import type { Helia } from 'helia'
-import type { UnixFS } from '@helia/unixfs'
+import { type StorageBackend, HeliaStorageBackend } from './storage'
+import { retry, getRetryPolicy, type RetryPolicy } from './retry'
 
-interface IPFSClientConfig {
+export interface IPFSClientConfig {
+  // Defaults to an in-memory Helia node
+  backend?: StorageBackend
   blockstore?: Blockstore
+  // Applied to every backend call; defaults to the 'ipfs' policy
+  retry?: RetryPolicy
 }
 
 export class IPFSClient {
-  private helia!: Helia
-  private fs!: UnixFS
-  private initialized: Promise<void>
+  private backend: StorageBackend
+  private retryPolicy: RetryPolicy
   private disposed = false
 
   constructor(config: IPFSClientConfig = {}) {
-    this.initialized = this.initialize(config)
+    this.backend = config.backend ?? new HeliaStorageBackend({ blockstore: config.blockstore })
+    this.retryPolicy = getRetryPolicy('ipfs', { ipfs: config.retry })
   }
 
-  private async initialize(config: IPFSClientConfig) {
-    try {
-      const blockstore = config.blockstore || new MemoryBlockstore()
-      
-      // Dynamic imports to avoid ESM/CJS issues
-      const { createHelia } = await import('helia')
-      const { unixfs } = await import('@helia/unixfs')
-      
-      this.helia = await createHelia({ blockstore })
-      this.fs = unixfs(this.helia)
-    } catch (error) {
-      throw new ProtocolError(
-        'Failed to initialize IPFS client',
-        ErrorType.INITIALIZATION_ERROR,
-        error
-      )
-    }
+  getBackend(): StorageBackend {
+    return this.backend
   }
 
-  async addFile(content: string): Promise<string> {
+  private assertNotDisposed() {
     if (this.disposed) {
       throw new ProtocolError(
         'IPFS client has been disposed',
         ErrorType.CLIENT_ERROR
       )
     }
+  }
+
+  async addFile(content: string): Promise<string> {
+    this.assertNotDisposed()
 
     try {
-      await this.initialized
       const encoder = new TextEncoder()
-      const cid = await this.fs.addBytes(encoder.encode(content))
-      return cid.toString()
+      return await retry(() => this.backend.add(encoder.encode(content)), this.retryPolicy)
     } catch (error) {
       throw new ProtocolError(
         'Failed to add file to IPFS',
@@ -59,22 +50,36 @@ export class IPFSClient {
     }
   }
 
-  async getFile(cid: string): Promise<string> {
-    if (this.disposed) {
+  // The CID addFile would return for `content`, without storing it anywhere.
+  // Uses Helia's import settings, which the pinning backend also requests
+  async hashFile(content: string): Promise<string> {
+    this.assertNotDisposed()
+
+    try {
+      const { unixfs } = await import('@helia/unixfs')
+      // Blocks are hashed by the importer and dropped instead of stored
+      const blockstore = { put: async (cid: CID) => cid }
+      const cid = await unixfs({ blockstore }).addBytes(new TextEncoder().encode(content))
+      return cid.toString()
+    } catch (error) {
       throw new ProtocolError(
-        'IPFS client has been disposed',
-        ErrorType.CLIENT_ERROR
+        'Failed to hash file for IPFS',
+        ErrorType.IPFS_ERROR,
+        error
       )
     }
+  }
+
+  async getFile(cid: string): Promise<string> {
+    return new TextDecoder().decode(await this.getBytes(cid))
+  }
+
+  // The raw bytes behind `cid`, e.g. to check them against the CID
+  async getBytes(cid: string): Promise<Uint8Array> {
+    this.assertNotDisposed()
 
     try {
-      await this.initialized
-      const decoder = new TextDecoder()
-      const chunks: Uint8Array[] = []
-      for await (const chunk of this.fs.cat(cid)) {
-        chunks.push(chunk)
-      }
-      return decoder.decode(Buffer.concat(chunks))
+      return await retry(() => this.backend.get(cid), this.retryPolicy)
     } catch (error) {
       throw new ProtocolError(
         'Failed to get file from IPFS',
@@ -84,10 +89,38 @@ export class IPFSClient {
     }
   }
 
+  async pin(cid: string): Promise<void> {
+    this.assertNotDisposed()
+
+    try {
+      await retry(() => this.backend.pin(cid), this.retryPolicy)
+    } catch (error) {
+      throw new ProtocolError(
+        `Failed to pin ${cid}`,
+        ErrorType.IPFS_ERROR,
+        error
+      )
+    }
+  }
+
+  async unpin(cid: string): Promise<void> {
+    this.assertNotDisposed()
+
+    try {
+      await retry(() => this.backend.unpin(cid), this.retryPolicy)
+    } catch (error) {
+      throw new ProtocolError(
+        `Failed to unpin ${cid}`,
+        ErrorType.IPFS_ERROR,
+        error
+      )
+    }
+  }
+
   async dispose(): Promise<void> {
     if (!this.disposed) {
       this.disposed = true
-      await this.helia.stop()
+      await this.backend.dispose?.()
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,106 @@
+import {
+  type PublicClient,
+  type Address,
+  type Abi
+} from 'viem'
+import { MULTICALL3_ADDRESS, MULTICALL_BATCH_SIZE } from '../config/constants'
+import { ProtocolError } from './errors'
+
+export interface MulticallBatcherOptions {
+  // Maximum calls per Multicall3 request
+  batchSize?: number
+  // Milliseconds to collect calls before flushing; 0 batches calls from the same tick
+  wait?: number
+  multicallAddress?: Address
+}
+
+export interface BatchedCall {
+  address: Address
+  abi: Abi
+  functionName: string
+  args: readonly unknown[]
+}
+
+interface PendingCall {
+  call: BatchedCall
+  resolve: (value: unknown) => void
+  reject: (reason: unknown) => void
+}
+
+/**
+ * Collects contract reads issued close together and sends them as a single
+ * Multicall3 aggregate call. Each caller still gets its own decoded result
+ * or error.
+ */
+export class MulticallBatcher {
+  private queue: PendingCall[] = []
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private batchSize: number
+  private wait: number
+  private multicallAddress: Address
+
+  constructor(
+    private publicClient: PublicClient,
+    options: MulticallBatcherOptions = {}
+  ) {
+    this.batchSize = options.batchSize ?? MULTICALL_BATCH_SIZE
+    this.wait = options.wait ?? 0
+    this.multicallAddress = options.multicallAddress ?? MULTICALL3_ADDRESS
+  }
+
+  call<T>(call: BatchedCall): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({ call, resolve: resolve as (value: unknown) => void, reject })
+
+      if (this.queue.length >= this.batchSize) {
+        this.flush()
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => this.flush(), this.wait)
+      }
+    })
+  }
+
+  flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+
+    const pending = this.queue.splice(0)
+    for (let i = 0; i < pending.length; i += this.batchSize) {
+      void this.execute(pending.slice(i, i + this.batchSize))
+    }
+  }
+
+  private async execute(batch: PendingCall[]): Promise<void> {
+    // A lone call gains nothing from the aggregate wrapper
+    if (batch.length === 1) {
+      const [{ call, resolve, reject }] = batch
+      try {
+        resolve(await this.publicClient.readContract(call))
+      } catch (error) {
+        reject(ProtocolError.fromError(error, call.abi))
+      }
+      return
+    }
+
+    try {
+      const responses = await this.publicClient.multicall({
+        contracts: batch.map(({ call }) => call),
+        allowFailure: true,
+        multicallAddress: this.multicallAddress,
+        batchSize: 0
+      })
+
+      responses.forEach((response, i) => {
+        if (response.status === 'success') {
+          batch[i].resolve(response.result)
+        } else {
+          batch[i].reject(ProtocolError.fromError(response.error, batch[i].call.abi))
+        }
+      })
+    } catch (error) {
+      batch.forEach(({ call, reject }) => reject(ProtocolError.fromError(error, call.abi)))
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import { ProtocolError, ErrorType } from './errors'
+
+/**
+ * Where TransactionQueue keeps its serialized state between sessions.
+ * The queue hands over and reads back a single JSON string.
+ */
+export interface QueueStore {
+  load(): Promise<string | null>
+  save(state: string): Promise<void>
+}
+
+const DEFAULT_KEY = 'protocol-sdk:tx-queue'
+
+/**
+ * Keeps state for the lifetime of the process only. Used when no store is
+ * configured.
+ */
+export class MemoryQueueStore implements QueueStore {
+  private state: string | null = null
+
+  async load(): Promise<string | null> {
+    return this.state
+  }
+
+  async save(state: string): Promise<void> {
+    this.state = state
+  }
+}
+
+/**
+ * Browser store backed by localStorage (or any Storage, e.g. sessionStorage).
+ */
+export class LocalStorageQueueStore implements QueueStore {
+  constructor(
+    private key: string = DEFAULT_KEY,
+    private storage: Storage | undefined = globalThis.localStorage
+  ) {
+    if (!this.storage) {
+      throw new ProtocolError(
+        'localStorage is not available in this environment',
+        ErrorType.INVALID_CONFIG
+      )
+    }
+  }
+
+  async load(): Promise<string | null> {
+    return this.storage!.getItem(this.key)
+  }
+
+  async save(state: string): Promise<void> {
+    this.storage!.setItem(this.key, state)
+  }
+}
+
+/**
+ * Browser store backed by IndexedDB, for queues too large for localStorage.
+ */
+export class IndexedDBQueueStore implements QueueStore {
+  private db: Promise<IDBDatabase> | null = null
+
+  constructor(
+    private databaseName: string = DEFAULT_KEY,
+    private key: string = 'state'
+  ) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        if (!globalThis.indexedDB) {
+          reject(new ProtocolError(
+            'IndexedDB is not available in this environment',
+            ErrorType.INVALID_CONFIG
+          ))
+          return
+        }
+        const request = globalThis.indexedDB.open(this.databaseName, 1)
+        request.onupgradeneeded = () => request.result.createObjectStore('queue')
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(new ProtocolError(
+          `Failed to open IndexedDB database ${this.databaseName}`,
+          ErrorType.CLIENT_ERROR,
+          request.error
+        ))
+      })
+      // Failed opens are retried on the next call
+      this.db.catch(() => { this.db = null })
+    }
+    return this.db
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open()
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction('queue', mode).objectStore('queue'))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(new ProtocolError(
+        'IndexedDB request failed',
+        ErrorType.CLIENT_ERROR,
+        request.error
+      ))
+    })
+  }
+
+  async load(): Promise<string | null> {
+    const state = await this.request<string | undefined>('readonly', store => store.get(this.key))
+    return state ?? null
+  }
+
+  async save(state: string): Promise<void> {
+    await this.request('readwrite', store => store.put(state, this.key))
+  }
+}
+
+/**
+ * Node.js store that writes the state to a JSON file. Writes go through a
+ * temporary file so a crash never leaves a truncated queue behind.
+ */
+export class FileQueueStore implements QueueStore {
+  constructor(private path: string) {}
+
+  async load(): Promise<string | null> {
+    const { readFile } = await import('fs/promises')
+    try {
+      return await readFile(this.path, 'utf8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw new ProtocolError(
+        `Failed to read transaction queue from ${this.path}`,
+        ErrorType.CLIENT_ERROR,
+        error
+      )
+    }
+  }
+
+  async save(state: string): Promise<void> {
+    const { writeFile, rename } = await import('fs/promises')
+    const temporary = `${this.path}.tmp`
+    try {
+      await writeFile(temporary, state, 'utf8')
+      await rename(temporary, this.path)
+    } catch (error) {
+      throw new ProtocolError(
+        `Failed to write transaction queue to ${this.path}`,
+        ErrorType.CLIENT_ERROR,
+        error
+      )
+    }
+  }
+}
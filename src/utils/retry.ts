@@ -1,40 +1,172 @@
 import { ProtocolError, ErrorType } from './errors'
 
-export const ERROR_CODES = {
-  OPERATION_FAILED: ErrorType.TRANSACTION_FAILED,
-  MAX_RETRIES_EXCEEDED: ErrorType.NETWORK_ERROR
-} as const
+export type RetryJitter = 'none' | 'full' | 'decorrelated'
 
+// Decides whether a failed attempt is worth repeating
+export type RetryClassifier = (error: unknown, attempt: number) => boolean
+
+export interface RetryEvent {
+  // The attempt that failed, starting at 1
+  attempt: number
+  error: unknown
+  // Wait before the next attempt, in milliseconds
+  delay: number
+}
+
+export interface RetryPolicy {
+  // Attempts in total, the first one included
+  maxAttempts?: number
+  initialDelay?: number
+  maxDelay?: number
+  backoffFactor?: number
+  // 'full' waits a random time up to the backoff delay; 'decorrelated'
+  // grows from the previous wait instead of the attempt count
+  jitter?: RetryJitter
+  // Time budget for all attempts and waits together, in milliseconds
+  deadline?: number
+  // Defaults to ProtocolError.retryable, so reverts and rejections fail fast
+  isRetryable?: RetryClassifier
+  signal?: AbortSignal
+  onRetry?: (event: RetryEvent) => void
+}
+
+export type RetryOperation = 'read' | 'write' | 'ipfs' | 'events'
+
+// Per-operation policies, set as SDKConfig.retry
+export type RetryPolicies = Partial<Record<RetryOperation, RetryPolicy>>
+
+export const DEFAULT_RETRY_POLICIES: Readonly<Record<RetryOperation, RetryPolicy>> = {
+  read: { maxAttempts: 3, initialDelay: 500 },
+  // Only the simulation before sending is repeated, never the broadcast
+  write: { maxAttempts: 2, initialDelay: 1000 },
+  ipfs: { maxAttempts: 4, initialDelay: 1000, maxDelay: 10000 },
+  events: { maxAttempts: 3, initialDelay: 1000 }
+}
+
+/**
+ * The default policy for `operation` with the configured one on top.
+ */
+export function getRetryPolicy(operation: RetryOperation, policies: RetryPolicies = {}): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICIES[operation], ...policies[operation] }
+}
+
+export function isRetryableError(error: unknown): boolean {
+  return ProtocolError.fromError(error).retryable
+}
+
+function abortError(signal: AbortSignal): ProtocolError {
+  return new ProtocolError('Operation was aborted', ErrorType.ABORTED, undefined, {
+    cause: signal.reason,
+    retryable: false
+  })
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError(signal))
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(abortError(signal!))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// AbortSignal.any, which the DOM typings of TypeScript 5.4 leave out
+function anySignal(signals: AbortSignal[]): AbortSignal {
+  const controller = new AbortController()
+  for (const signal of signals) {
+    if (signal.aborted) {
+      controller.abort(signal.reason)
+      break
+    }
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true })
+  }
+  return controller.signal
+}
+
+// Settles with `promise`, or rejects once `signal` aborts even if the
+// operation behind it ignores the signal
+function raceSignal<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason)
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
+
+function timeoutError(message: string, cause: unknown): ProtocolError {
+  return new ProtocolError(message, ErrorType.TIMEOUT, undefined, { cause, retryable: false })
+}
+
+/**
+ * Runs `operation` until it succeeds or the policy gives up. Failures the
+ * classifier rejects, and the last failure, are rethrown as is so callers
+ * can still decode them. An aborted signal rejects with an ABORTED error,
+ * a spent deadline with a TIMEOUT one; neither is retryable. Both bound
+ * attempts too: the signal given to `operation` aborts with them, and an
+ * attempt still running then is abandoned even if it ignores the signal.
+ *
+ *   await retry(signal => fetchDeed(id, { signal }), { maxAttempts: 5, jitter: 'decorrelated' })
+ */
 export async function retry<T>(
-  operation: () => Promise<T>,
-  maxAttempts: number = 3,
-  initialDelay: number = 1000
+  operation: (signal?: AbortSignal) => Promise<T>,
+  policy: RetryPolicy = {}
 ): Promise<T> {
-  let lastError: Error | ProtocolError = new ProtocolError(
-    'Operation failed',
-    ErrorType.TRANSACTION_FAILED
-  )
-  
-  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+  const {
+    maxAttempts = 3,
+    initialDelay = 1000,
+    maxDelay = 30000,
+    backoffFactor = 2,
+    jitter = 'full',
+    deadline,
+    isRetryable = isRetryableError,
+    signal,
+    onRetry
+  } = policy
+  const expiresAt = deadline !== undefined ? Date.now() + deadline : Infinity
+  let delay = initialDelay
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw abortError(signal)
+
+    const timeout = deadline !== undefined
+      ? AbortSignal.timeout(Math.max(0, expiresAt - Date.now()))
+      : undefined
+    const signals = [signal, timeout].filter((s): s is AbortSignal => s !== undefined)
+    const attemptSignal = signals.length > 1 ? anySignal(signals) : signals[0]
+
     try {
-      return await operation()
+      return attemptSignal
+        ? await raceSignal(operation(attemptSignal), attemptSignal)
+        : await operation()
     } catch (error) {
-      lastError = error instanceof ProtocolError 
-        ? error 
-        : new ProtocolError(
-            `Operation failed after ${attempt} attempts`,
-            ErrorType.TRANSACTION_FAILED,
-            error
-          )
-      
-      if (attempt === maxAttempts) break
-      
-      // Exponential backoff
-      await new Promise(resolve => 
-        setTimeout(resolve, initialDelay * Math.pow(2, attempt - 1))
-      )
+      if (signal?.aborted) throw abortError(signal)
+      if (timeout?.aborted) {
+        throw timeoutError(`Attempt ${attempt} ran past the ${deadline}ms deadline`, error)
+      }
+      if (attempt >= maxAttempts || !isRetryable(error, attempt)) throw error
+
+      const backoff = Math.min(initialDelay * Math.pow(backoffFactor, attempt - 1), maxDelay)
+      delay = jitter === 'full'
+        ? Math.random() * backoff
+        : jitter === 'decorrelated'
+          ? Math.min(maxDelay, initialDelay + Math.random() * (delay * 3 - initialDelay))
+          : backoff
+
+      if (Date.now() + delay >= expiresAt) {
+        throw timeoutError(`Gave up after ${attempt} attempts: the ${deadline}ms deadline would pass`, error)
+      }
+
+      onRetry?.({ attempt, error, delay })
+      await sleep(delay, signal)
     }
   }
-  
-  throw lastError
-}
\ No newline at end of file
+}
@@ -0,0 +1,269 @@
+import {
+  AppKit,
+  createAppKit,
+  type AppKitOptions
+} from '@reown/appkit'
+import {
+  WagmiAdapter
+} from '@reown/appkit-adapter-wagmi'
+import {
+  type WalletClient,
+  type Chain,
+  type EIP1193Provider,
+  type LocalAccount,
+  type Hex,
+  createWalletClient,
+  custom,
+  http
+} from 'viem'
+import { privateKeyToAccount, mnemonicToAccount } from 'viem/accounts'
+import { ProtocolError, ErrorType } from './errors'
+import type { WalletConfig } from '../types/config'
+
+/**
+ * Source of the wallet client used to sign protocol transactions.
+ * WalletManager consumes one of these; AppKit is the default.
+ */
+export interface SignerAdapter {
+  readonly type: string
+  connect(): Promise<WalletClient>
+  disconnect(): Promise<void>
+  switchNetwork?(chainId: number): Promise<void>
+}
+
+export function resolveRpcUrl(fallbackRpcUrl?: string): string {
+  const defaultRpcUrl = 'https://eth-mainnet.g.alchemy.com/v2/your-api-key'
+  const rpcUrl = fallbackRpcUrl || defaultRpcUrl
+
+  if (!rpcUrl.startsWith('http')) {
+    throw new ProtocolError(
+      'Invalid RPC URL format',
+      ErrorType.INVALID_CONFIG
+    )
+  }
+
+  return rpcUrl
+}
+
+export class AppKitSignerAdapter implements SignerAdapter {
+  readonly type = 'appkit'
+  private appKit: AppKit | null = null
+
+  constructor(private config: WalletConfig = {}) {}
+
+  // AppKit is created on first connect so read-only SDKs never need a project ID
+  private initializeAppKit(): AppKit {
+    if (this.appKit) {
+      return this.appKit
+    }
+
+    const projectId = this.config.walletConnectProjectId
+    if (!projectId) {
+      throw new ProtocolError(
+        'WalletConnect project ID is required',
+        ErrorType.INVALID_CONFIG
+      )
+    }
+
+    const defaultRpcUrl = resolveRpcUrl(this.config.fallbackRpcUrl)
+
+    const mainnet = {
+      id: 1,
+      name: 'Ethereum Mainnet',
+      nativeCurrency: {
+        name: 'Ether',
+        symbol: 'ETH',
+        decimals: 18
+      },
+      rpcUrls: {
+        default: { http: [defaultRpcUrl] as [string] },
+        public: { http: [defaultRpcUrl] as [string] }
+      }
+    } as const
+
+    const additionalNetworks = (this.config.supportedChainIds || []).slice(1).map(id => ({
+      id,
+      name: `Chain ${id}`,
+      nativeCurrency: {
+        name: 'Ether',
+        symbol: 'ETH',
+        decimals: 18
+      },
+      rpcUrls: {
+        default: { http: [defaultRpcUrl] as [string] },
+        public: { http: [defaultRpcUrl] as [string] }
+      }
+    }))
+
+    const networks = [mainnet, ...additionalNetworks]
+
+    const options: AppKitOptions = {
+      projectId,
+      networks: [networks[0], ...networks.slice(1)],
+      adapters: [new WagmiAdapter({
+        networks: [networks[0], ...networks.slice(1)],
+        projectId
+      })]
+    }
+
+    this.appKit = createAppKit(options)
+    return this.appKit
+  }
+
+  async connect(): Promise<WalletClient> {
+    const appKit = this.initializeAppKit()
+    await appKit.open()
+
+    const walletInfo = await appKit.getWalletInfo()
+    if (!walletInfo?.client) {
+      throw new ProtocolError(
+        'Failed to get wallet client',
+        ErrorType.WALLET_CONNECTION
+      )
+    }
+    return walletInfo.client as WalletClient
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.appKit) {
+      await this.appKit.disconnect()
+    }
+  }
+
+  async switchNetwork(chainId: number): Promise<void> {
+    if (!this.appKit) {
+      throw new ProtocolError(
+        'AppKit not initialized',
+        ErrorType.WALLET_CONNECTION
+      )
+    }
+    const network = {
+      id: chainId,
+      name: `Chain ${chainId}`,
+      nativeCurrency: {
+        name: 'Ether',
+        symbol: 'ETH',
+        decimals: 18
+      },
+      rpcUrls: {
+        default: { http: [this.config.fallbackRpcUrl || ''] },
+        public: { http: [this.config.fallbackRpcUrl || ''] }
+      }
+    }
+    await this.appKit.switchNetwork(network)
+  }
+}
+
+export type LocalAccountSignerConfig = {
+  rpcUrl: string
+  chain?: Chain
+} & (
+  | { privateKey: Hex }
+  | { mnemonic: string; addressIndex?: number }
+  | { account: LocalAccount }
+)
+
+/**
+ * Signs with a viem local account (private key, mnemonic or a prebuilt
+ * account). Intended for backend jobs and tests.
+ */
+export class LocalAccountSignerAdapter implements SignerAdapter {
+  readonly type = 'local'
+
+  constructor(private config: LocalAccountSignerConfig) {}
+
+  private createAccount(): LocalAccount {
+    if ('account' in this.config) {
+      return this.config.account
+    }
+    if ('privateKey' in this.config) {
+      return privateKeyToAccount(this.config.privateKey)
+    }
+    return mnemonicToAccount(this.config.mnemonic, {
+      addressIndex: this.config.addressIndex ?? 0
+    })
+  }
+
+  async connect(): Promise<WalletClient> {
+    return createWalletClient({
+      account: this.createAccount(),
+      chain: this.config.chain,
+      transport: http(resolveRpcUrl(this.config.rpcUrl))
+    })
+  }
+
+  async disconnect(): Promise<void> {}
+}
+
+/**
+ * Signs through a raw EIP-1193 provider, e.g. an injected browser wallet.
+ */
+export class EIP1193SignerAdapter implements SignerAdapter {
+  readonly type = 'eip1193'
+  private walletClient: WalletClient | null = null
+
+  constructor(
+    private provider: EIP1193Provider,
+    private chain?: Chain
+  ) {}
+
+  async connect(): Promise<WalletClient> {
+    const client = createWalletClient({
+      chain: this.chain,
+      transport: custom(this.provider)
+    })
+    const [account] = await client.requestAddresses()
+    if (!account) {
+      throw new ProtocolError(
+        'Provider did not expose an account',
+        ErrorType.WALLET_CONNECTION
+      )
+    }
+
+    this.walletClient = createWalletClient({
+      account,
+      chain: this.chain,
+      transport: custom(this.provider)
+    })
+    return this.walletClient
+  }
+
+  async disconnect(): Promise<void> {
+    this.walletClient = null
+  }
+
+  async switchNetwork(chainId: number): Promise<void> {
+    if (!this.walletClient) {
+      throw new ProtocolError(
+        'Wallet not connected',
+        ErrorType.WALLET_NOT_CONNECTED
+      )
+    }
+    await this.walletClient.switchChain({ id: chainId })
+  }
+}
+
+/**
+ * Wraps a WalletClient the application has already created.
+ */
+export class WalletClientSignerAdapter implements SignerAdapter {
+  readonly type = 'walletClient'
+
+  constructor(private walletClient: WalletClient) {}
+
+  async connect(): Promise<WalletClient> {
+    if (!this.walletClient.account) {
+      throw new ProtocolError(
+        'Wallet client has no account',
+        ErrorType.WALLET_CONNECTION
+      )
+    }
+    return this.walletClient
+  }
+
+  async disconnect(): Promise<void> {}
+
+  async switchNetwork(chainId: number): Promise<void> {
+    await this.walletClient.switchChain({ id: chainId })
+  }
+}
@@ -0,0 +1,283 @@
+import type { Blockstore } from 'interface-blockstore'
+import { MemoryBlockstore } from 'blockstore-core/memory'
+import { CID } from 'multiformats/cid'
+import { sha256 } from 'multiformats/hashes/sha2'
+import * as raw from 'multiformats/codecs/raw'
+import { ProtocolError, ErrorType } from './errors'
+import type { Helia } from 'helia'
+import type { UnixFS } from '@helia/unixfs'
+
+/**
+ * Where IPFSClient keeps content. Backends that cannot write (e.g. a public
+ * gateway) throw from add, pin and unpin.
+ */
+export interface StorageBackend {
+  readonly type: string
+  add(content: Uint8Array): Promise<string>
+  get(cid: string): Promise<Uint8Array>
+  pin(cid: string): Promise<void>
+  unpin(cid: string): Promise<void>
+  dispose?(): Promise<void>
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0))
+  let offset = 0
+  for (const chunk of chunks) {
+    result.set(chunk, offset)
+    offset += chunk.length
+  }
+  return result
+}
+
+export interface HeliaStorageConfig {
+  blockstore?: Blockstore
+}
+
+/**
+ * In-process Helia node. Defaults to a MemoryBlockstore, so content only
+ * lives as long as the process.
+ */
+export class HeliaStorageBackend implements StorageBackend {
+  readonly type: string = 'helia'
+  private node: Promise<{ helia: Helia; fs: UnixFS }> | null = null
+
+  constructor(private config: HeliaStorageConfig = {}) {}
+
+  protected async createBlockstore(): Promise<Blockstore> {
+    return this.config.blockstore || new MemoryBlockstore()
+  }
+
+  // Helia is started on first use so read-only SDKs never spin up a node
+  private ready(): Promise<{ helia: Helia; fs: UnixFS }> {
+    if (!this.node) {
+      this.node = (async () => {
+        try {
+          const blockstore = await this.createBlockstore()
+
+          // Dynamic imports to avoid ESM/CJS issues
+          const { createHelia } = await import('helia')
+          const { unixfs } = await import('@helia/unixfs')
+
+          const helia = await createHelia({ blockstore })
+          return { helia, fs: unixfs(helia) }
+        } catch (error) {
+          this.node = null
+          throw new ProtocolError(
+            'Failed to initialize IPFS node',
+            ErrorType.INITIALIZATION_ERROR,
+            error
+          )
+        }
+      })()
+    }
+    return this.node
+  }
+
+  async add(content: Uint8Array): Promise<string> {
+    const { fs } = await this.ready()
+    const cid = await fs.addBytes(content)
+    return cid.toString()
+  }
+
+  async get(cid: string): Promise<Uint8Array> {
+    const { fs } = await this.ready()
+    const chunks: Uint8Array[] = []
+    for await (const chunk of fs.cat(CID.parse(cid))) {
+      chunks.push(chunk)
+    }
+    return concat(chunks)
+  }
+
+  async pin(cid: string): Promise<void> {
+    const { helia } = await this.ready()
+    await helia.pins.add(CID.parse(cid))
+  }
+
+  async unpin(cid: string): Promise<void> {
+    const { helia } = await this.ready()
+    await helia.pins.rm(CID.parse(cid))
+  }
+
+  async dispose(): Promise<void> {
+    if (this.node) {
+      const { helia } = await this.node
+      this.node = null
+      await helia.stop()
+    }
+  }
+}
+
+/**
+ * Helia node persisted to a directory through blockstore-fs (Node.js only).
+ */
+export class FilesystemStorageBackend extends HeliaStorageBackend {
+  readonly type: string = 'filesystem'
+
+  constructor(private path: string) {
+    super()
+  }
+
+  protected async createBlockstore(): Promise<Blockstore> {
+    const { FsBlockstore } = await import('blockstore-fs')
+    const blockstore = new FsBlockstore(this.path)
+    await blockstore.open()
+    return blockstore
+  }
+}
+
+export interface PinningServiceConfig {
+  // Base URL of a Kubo-compatible RPC API, e.g. https://ipfs.example.com:5001
+  endpoint: string
+  headers?: Record<string, string>
+  fetch?: typeof fetch
+}
+
+/**
+ * Remote pinning service speaking the Kubo RPC API (/api/v0/add, cat,
+ * pin/add, pin/rm) that most hosted pinning providers expose.
+ */
+export class PinningServiceBackend implements StorageBackend {
+  readonly type = 'pinning-service'
+  private fetch: typeof fetch
+
+  constructor(private config: PinningServiceConfig) {
+    this.fetch = config.fetch ?? globalThis.fetch
+  }
+
+  private async request(path: string, body?: FormData): Promise<Response> {
+    const url = `${this.config.endpoint.replace(/\/$/, '')}/api/v0/${path}`
+    const response = await this.fetch(url, {
+      method: 'POST',
+      headers: this.config.headers,
+      body
+    })
+    if (!response.ok) {
+      throw new ProtocolError(
+        `Pinning service request ${path} failed with status ${response.status}`,
+        ErrorType.IPFS_ERROR,
+        { status: response.status, body: await response.text() }
+      )
+    }
+    return response
+  }
+
+  async add(content: Uint8Array): Promise<string> {
+    const form = new FormData()
+    form.append('file', new Blob([content]))
+    // Same CID settings Helia uses, so CIDs match across backends
+    const response = await this.request('add?cid-version=1&raw-leaves=true&pin=true', form)
+    const { Hash } = await response.json() as { Hash: string }
+    return Hash
+  }
+
+  async get(cid: string): Promise<Uint8Array> {
+    const response = await this.request(`cat?arg=${encodeURIComponent(cid)}`)
+    return new Uint8Array(await response.arrayBuffer())
+  }
+
+  async pin(cid: string): Promise<void> {
+    await this.request(`pin/add?arg=${encodeURIComponent(cid)}`)
+  }
+
+  async unpin(cid: string): Promise<void> {
+    await this.request(`pin/rm?arg=${encodeURIComponent(cid)}`)
+  }
+}
+
+export interface GatewayStorageConfig {
+  gateway: string
+  fetch?: typeof fetch
+}
+
+/**
+ * Read-only access through an HTTP gateway. Blocks are fetched raw and
+ * checked against the CID's sha2-256 digest before being returned.
+ */
+export class GatewayStorageBackend implements StorageBackend {
+  readonly type = 'gateway'
+  private fetch: typeof fetch
+
+  constructor(private config: GatewayStorageConfig) {
+    this.fetch = config.fetch ?? globalThis.fetch
+  }
+
+  private readOnly(operation: string): never {
+    throw new ProtocolError(
+      `Gateway storage is read-only; cannot ${operation}`,
+      ErrorType.IPFS_ERROR
+    )
+  }
+
+  async add(): Promise<string> {
+    return this.readOnly('add content')
+  }
+
+  async pin(): Promise<void> {
+    return this.readOnly('pin')
+  }
+
+  async unpin(): Promise<void> {
+    return this.readOnly('unpin')
+  }
+
+  async get(cid: string): Promise<Uint8Array> {
+    const parsed = CID.parse(cid)
+    const url = `${this.config.gateway.replace(/\/$/, '')}/ipfs/${parsed.toString()}?format=raw`
+    const response = await this.fetch(url, {
+      headers: { Accept: 'application/vnd.ipld.raw' }
+    })
+    if (!response.ok) {
+      throw new ProtocolError(
+        `Gateway returned status ${response.status} for ${cid}`,
+        ErrorType.IPFS_ERROR,
+        { status: response.status }
+      )
+    }
+
+    const block = new Uint8Array(await response.arrayBuffer())
+    await this.verify(parsed, block)
+
+    if (parsed.code === raw.code) {
+      return block
+    }
+
+    // Small files are a single dag-pb node wrapping UnixFS data
+    const { decode, code: dagPbCode } = await import('@ipld/dag-pb')
+    const { UnixFS } = await import('ipfs-unixfs')
+    if (parsed.code !== dagPbCode) {
+      throw new ProtocolError(
+        `Unsupported codec 0x${parsed.code.toString(16)} for ${cid}`,
+        ErrorType.IPFS_ERROR
+      )
+    }
+    const node = decode(block)
+    if (node.Links.length > 0 || !node.Data) {
+      throw new ProtocolError(
+        `Multi-block content is not supported by the gateway backend: ${cid}`,
+        ErrorType.IPFS_ERROR
+      )
+    }
+    return UnixFS.unmarshal(node.Data).data ?? new Uint8Array()
+  }
+
+  private async verify(cid: CID, block: Uint8Array): Promise<void> {
+    if (cid.multihash.code !== sha256.code) {
+      throw new ProtocolError(
+        `Cannot verify ${cid}: unsupported hash 0x${cid.multihash.code.toString(16)}`,
+        ErrorType.IPFS_ERROR
+      )
+    }
+
+    const digest = await sha256.digest(block)
+    const expected = cid.multihash.digest
+    const matches = digest.digest.length === expected.length &&
+      digest.digest.every((byte, i) => byte === expected[i])
+    if (!matches) {
+      throw new ProtocolError(
+        `Gateway content does not match CID ${cid}`,
+        ErrorType.IPFS_ERROR
+      )
+    }
+  }
+}
@@ -1,10 +1,57 @@
-import { type Hash } from 'viem'
+import {
+  type PublicClient,
+  type WalletClient,
+  type Abi,
+  type Address,
+  type Hash,
+  type Hex,
+  BaseError,
+  ExecutionRevertedError,
+  UserRejectedRequestError,
+  encodeFunctionData
+} from 'viem'
 import { ProtocolError, ErrorType } from './errors'
+import { MemoryQueueStore, type QueueStore } from './queueStore'
+import { DEFAULT_CONFIRMATIONS } from '../config/constants'
 
-interface QueuedTransaction {
-  hash: Hash
-  status: 'pending' | 'success' | 'failed'
+export type QueuedOperationStatus = 'queued' | 'sent' | 'success' | 'failed'
+
+export interface QueuedOperation {
+  id: string
+  from: Address
+  to: Address
+  data: Hex
+  value: bigint
+  // For display only; the call itself is encoded in `data`
+  functionName: string
+  status: QueuedOperationStatus
+  // Set once sent; a dropped transaction keeps it so its resend fills the gap
+  nonce?: number
+  hash?: Hash
   retries: number
+  error?: string
+  createdAt: number
+}
+
+export interface QueueOperationRequest {
+  address: Address
+  abi: Abi
+  functionName: string
+  args?: readonly unknown[]
+  value?: bigint
+}
+
+export interface TransactionQueueOptions {
+  // Defaults to an in-memory store, which does not survive a restart
+  store?: QueueStore
+  maxRetries?: number
+  // Base delay between send attempts, doubled on every retry
+  retryDelay?: number
+  confirmations?: number
+  // How long to wait for a receipt before checking whether the tx was dropped
+  confirmationTimeout?: number
+  // Persistence and background send failures
+  onError?: (error: ProtocolError) => void
 }
 
 export interface QueueStatus {
@@ -13,54 +60,189 @@ export interface QueueStatus {
   failed: number
 }
 
+interface SerializedQueue {
+  version: 1
+  operations: (Omit<QueuedOperation, 'value'> & { value: string })[]
+}
+
+function isPermanentFailure(error: unknown): boolean {
+  return error instanceof BaseError && error.walk(cause =>
+    cause instanceof ExecutionRevertedError || cause instanceof UserRejectedRequestError
+  ) !== null
+}
+
+/**
+ * Outbound queue for protocol writes. Operations are sent one at a time per
+ * account with consecutive nonces, retried on transient failures and
+ * followed to a receipt. State is saved to a QueueStore after every change
+ * so restore() can resume after a reload or restart.
+ */
 export class TransactionQueue {
-  private queue: Map<Hash, QueuedTransaction> = new Map()
-  private maxRetries: number = 3
+  private operations: Map<string, QueuedOperation> = new Map()
+  private nextNonces: Map<string, number> = new Map()
+  private processing: Set<string> = new Set()
+  private confirming: Set<string> = new Set()
+  private listeners: Set<(operation: QueuedOperation) => void> = new Set()
+  private store: QueueStore
+  private saving: Promise<void> = Promise.resolve()
+  private restored: Promise<void> | null = null
+  private stopped = false
 
-  addTransaction(hash: Hash): void {
-    if (this.queue.has(hash)) {
-      throw new ProtocolError(
-        `Transaction ${hash} already exists in queue`,
-        ErrorType.TRANSACTION_ERROR
-      )
+  private maxRetries: number
+  private retryDelay: number
+  private confirmations: number
+  private confirmationTimeout: number
+
+  constructor(
+    private publicClient: PublicClient,
+    private walletClient: WalletClient | null = null,
+    private options: TransactionQueueOptions = {}
+  ) {
+    this.store = options.store ?? new MemoryQueueStore()
+    this.maxRetries = options.maxRetries ?? 3
+    this.retryDelay = options.retryDelay ?? 1000
+    this.confirmations = options.confirmations ?? DEFAULT_CONFIRMATIONS
+    this.confirmationTimeout = options.confirmationTimeout ?? 180000
+  }
+
+  /**
+   * Operations are only sent for the connected account; queued operations
+   * from other accounts wait until that account is attached again.
+   */
+  setWalletClient(walletClient: WalletClient | null): void {
+    this.walletClient = walletClient
+    this.nextNonces.clear()
+    if (walletClient?.account) void this.process(walletClient.account.address)
+  }
+
+  /**
+   * Loads saved operations, resumes waiting for sent ones and starts
+   * sending queued ones. Safe to call more than once.
+   */
+  restore(): Promise<void> {
+    if (!this.restored) {
+      this.restored = this.load()
+      this.restored.catch(() => { this.restored = null })
     }
+    return this.restored
+  }
+
+  private async load(): Promise<void> {
+    let state: string | null
+    try {
+      state = await this.store.load()
+    } catch (error) {
+      throw new ProtocolError('Failed to load transaction queue', ErrorType.CLIENT_ERROR, error)
+    }
+    if (!state) return
 
-    this.queue.set(hash, {
-      hash,
-      status: 'pending',
-      retries: 0
+    let operations: QueuedOperation[]
+    try {
+      const saved = JSON.parse(state) as SerializedQueue
+      operations = saved.operations.map(operation => ({ ...operation, value: BigInt(operation.value) }))
+    } catch (error) {
+      throw new ProtocolError('Saved transaction queue is corrupt', ErrorType.CLIENT_ERROR, error)
+    }
+    operations.forEach(operation => {
+      if (!this.operations.has(operation.id)) this.operations.set(operation.id, operation)
     })
+
+    this.operations.forEach(operation => {
+      if (operation.status === 'sent') void this.confirm(operation)
+    })
+    if (this.walletClient?.account) void this.process(this.walletClient.account.address)
   }
 
-  updateStatus(hash: Hash, status: 'success' | 'failed'): void {
-    const tx = this.queue.get(hash)
-    if (!tx) {
+  /**
+   * Adds a contract write for the connected account and starts sending.
+   */
+  async enqueue(request: QueueOperationRequest): Promise<QueuedOperation> {
+    const account = this.walletClient?.account
+    if (!account) {
       throw new ProtocolError(
-        `Transaction ${hash} not found in queue`,
-        ErrorType.TRANSACTION_ERROR
+        `Cannot queue ${request.functionName}: no wallet is connected (read-only mode)`,
+        ErrorType.WALLET_NOT_CONNECTED,
+        { functionName: request.functionName }
       )
     }
+    await this.restore()
+
+    const operation: QueuedOperation = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+      from: account.address,
+      to: request.address,
+      data: encodeFunctionData({
+        abi: request.abi,
+        functionName: request.functionName,
+        args: request.args ?? []
+      }),
+      value: request.value ?? 0n,
+      functionName: request.functionName,
+      status: 'queued',
+      retries: 0,
+      createdAt: Date.now()
+    }
+
+    this.operations.set(operation.id, operation)
+    this.changed(operation)
+    void this.process(operation.from)
+    return { ...operation }
+  }
 
-    tx.status = status
-    this.queue.set(hash, tx)
+  getOperation(id: string): QueuedOperation | undefined {
+    const operation = this.operations.get(id)
+    return operation && { ...operation }
   }
 
-  incrementRetry(hash: Hash): boolean {
-    const tx = this.queue.get(hash)
-    if (!tx) {
+  /**
+   * Operations in the order they were queued, optionally for one account.
+   */
+  getOperations(account?: Address): QueuedOperation[] {
+    return [...this.operations.values()]
+      .filter(operation => !account || operation.from.toLowerCase() === account.toLowerCase())
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(operation => ({ ...operation }))
+  }
+
+  /**
+   * Puts a failed operation back in the queue with a fresh retry budget.
+   */
+  retry(id: string): void {
+    const operation = this.require(id)
+    if (operation.status !== 'failed') {
       throw new ProtocolError(
-        `Transaction ${hash} not found in queue`,
-        ErrorType.TRANSACTION_ERROR
+        `Operation ${id} has not failed`,
+        ErrorType.TRANSACTION_ERROR,
+        { id, status: operation.status }
       )
     }
+    this.update(operation, { status: 'queued', retries: 0, error: undefined, nonce: undefined, hash: undefined })
+    void this.process(operation.from)
+  }
 
-    tx.retries++
-    this.queue.set(hash, tx)
-    return tx.retries < this.maxRetries
+  /**
+   * Drops an operation that is not in flight.
+   */
+  remove(id: string): void {
+    const operation = this.require(id)
+    if (operation.status === 'sent') {
+      throw new ProtocolError(
+        `Operation ${id} was already sent as ${operation.hash}`,
+        ErrorType.TRANSACTION_ERROR,
+        { id, hash: operation.hash }
+      )
+    }
+    this.operations.delete(id)
+    this.save()
   }
 
-  clear(): void {
-    this.queue.clear()
+  /**
+   * Calls `listener` with a copy of every operation whenever it changes.
+   * Returns an unsubscribe function.
+   */
+  subscribe(listener: (operation: QueuedOperation) => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
   }
 
   getQueueStatus(): QueueStatus {
@@ -68,9 +250,10 @@ export class TransactionQueue {
     let completed = 0
     let failed = 0
 
-    this.queue.forEach(tx => {
-      switch (tx.status) {
-        case 'pending':
+    this.operations.forEach(operation => {
+      switch (operation.status) {
+        case 'queued':
+        case 'sent':
           pending++
           break
         case 'success':
@@ -88,4 +271,200 @@ export class TransactionQueue {
       failed
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Removes finished operations from the queue and the store.
+   */
+  clearCompleted(): void {
+    this.operations.forEach((operation, id) => {
+      if (operation.status === 'success' || operation.status === 'failed') this.operations.delete(id)
+    })
+    this.save()
+  }
+
+  /**
+   * Removes every operation, including saved ones. Sent transactions are
+   * no longer followed.
+   */
+  clear(): void {
+    this.operations.clear()
+    this.save()
+  }
+
+  /**
+   * Stops sending and following transactions without touching saved state.
+   */
+  stop(): void {
+    this.stopped = true
+    this.listeners.clear()
+  }
+
+  private async process(account: Address): Promise<void> {
+    const key = account.toLowerCase()
+    if (this.stopped || this.processing.has(key)) return
+    this.processing.add(key)
+
+    try {
+      for (;;) {
+        if (this.stopped || this.walletClient?.account?.address.toLowerCase() !== key) break
+        const next = [...this.operations.values()]
+          .filter(operation => operation.status === 'queued' && operation.from.toLowerCase() === key)
+          .sort((a, b) => a.createdAt - b.createdAt)[0]
+        if (!next) break
+        await this.send(next)
+      }
+    } finally {
+      this.processing.delete(key)
+    }
+  }
+
+  private async send(operation: QueuedOperation): Promise<void> {
+    const key = operation.from.toLowerCase()
+    const walletClient = this.walletClient
+    if (!walletClient?.account) return
+
+    try {
+      const nonce = operation.nonce ?? await this.reserveNonce(operation.from)
+      const hash = await walletClient.sendTransaction({
+        account: walletClient.account,
+        chain: walletClient.chain,
+        to: operation.to,
+        data: operation.data,
+        value: operation.value,
+        nonce
+      })
+      this.nextNonces.set(key, Math.max(nonce + 1, this.nextNonces.get(key) ?? 0))
+      this.update(operation, { status: 'sent', nonce, hash, error: undefined })
+      void this.confirm(operation)
+    } catch (error) {
+      // Nothing was broadcast at this nonce, and it was never reserved. The
+      // reservations of earlier sends stay: the node may not count those
+      // as pending yet
+      const protocolError = ProtocolError.fromError(error)
+
+      if (isPermanentFailure(error) || operation.retries >= this.maxRetries) {
+        this.update(operation, { status: 'failed', error: protocolError.message })
+        this.options.onError?.(protocolError)
+        return
+      }
+
+      this.update(operation, { retries: operation.retries + 1, error: protocolError.message })
+      await new Promise(resolve => setTimeout(resolve, this.retryDelay * Math.pow(2, operation.retries - 1)))
+    }
+  }
+
+  // The chain's pending count, unless this queue already sent past it
+  private async reserveNonce(account: Address): Promise<number> {
+    const pending = await this.publicClient.getTransactionCount({ address: account, blockTag: 'pending' })
+    return Math.max(pending, this.nextNonces.get(account.toLowerCase()) ?? 0)
+  }
+
+  private async confirm(operation: QueuedOperation): Promise<void> {
+    if (this.stopped || this.confirming.has(operation.id) || !operation.hash) return
+    this.confirming.add(operation.id)
+
+    let cancelled = false
+    try {
+      const receipt = await this.publicClient.waitForTransactionReceipt({
+        hash: operation.hash,
+        confirmations: this.confirmations,
+        timeout: this.confirmationTimeout,
+        onReplaced: replacement => {
+          cancelled = replacement.reason === 'cancelled'
+          this.update(operation, { hash: replacement.transaction.hash })
+        }
+      })
+
+      if (cancelled) {
+        this.update(operation, { status: 'failed', error: `Transaction was cancelled by ${receipt.transactionHash}` })
+      } else if (receipt.status === 'success') {
+        this.update(operation, { status: 'success', error: undefined })
+      } else {
+        this.update(operation, { status: 'failed', error: `Transaction ${receipt.transactionHash} reverted` })
+      }
+    } catch (error) {
+      await this.recover(operation, error)
+    } finally {
+      this.confirming.delete(operation.id)
+    }
+
+    if (operation.status === 'sent') void this.confirm(operation)
+  }
+
+  // Called when no receipt arrived in time: keep waiting while the tx is
+  // known, resend if it was dropped, fail if its nonce went to another tx
+  private async recover(operation: QueuedOperation, error: unknown): Promise<void> {
+    try {
+      const [transaction, mined] = await Promise.all([
+        this.publicClient.getTransaction({ hash: operation.hash! }).catch(() => null),
+        this.publicClient.getTransactionCount({ address: operation.from, blockTag: 'latest' })
+      ])
+      if (transaction) return
+
+      if (mined > operation.nonce!) {
+        this.update(operation, {
+          status: 'failed',
+          error: `Nonce ${operation.nonce} was used by another transaction`
+        })
+      } else if (operation.retries >= this.maxRetries) {
+        this.update(operation, { status: 'failed', error: ProtocolError.fromError(error).message })
+      } else {
+        // Resent at its own nonce; later operations may already hold the ones after it
+        this.update(operation, {
+          status: 'queued',
+          retries: operation.retries + 1,
+          hash: undefined,
+          error: `Transaction ${operation.hash} was dropped`
+        })
+        void this.process(operation.from)
+      }
+    } catch (recoverError) {
+      this.options.onError?.(ProtocolError.fromError(recoverError))
+      await new Promise(resolve => setTimeout(resolve, this.retryDelay))
+    }
+  }
+
+  private require(id: string): QueuedOperation {
+    const operation = this.operations.get(id)
+    if (!operation) {
+      throw new ProtocolError(
+        `Operation ${id} not found in queue`,
+        ErrorType.TRANSACTION_ERROR,
+        { id }
+      )
+    }
+    return operation
+  }
+
+  private update(operation: QueuedOperation, changes: Partial<QueuedOperation>): void {
+    Object.assign(operation, changes)
+    this.changed(operation)
+  }
+
+  private changed(operation: QueuedOperation): void {
+    this.save()
+    this.listeners.forEach(listener => listener({ ...operation }))
+  }
+
+  // Saves are chained so they reach the store in order
+  private save(): void {
+    const state: SerializedQueue = {
+      version: 1,
+      operations: [...this.operations.values()].map(operation => ({
+        ...operation,
+        value: operation.value.toString()
+      }))
+    }
+    const json = JSON.stringify(state)
+
+    this.saving = this.saving
+      .then(() => this.store.save(json))
+      .catch(error => {
+        this.options.onError?.(new ProtocolError(
+          'Failed to save transaction queue',
+          ErrorType.CLIENT_ERROR,
+          error
+        ))
+      })
+  }
+}
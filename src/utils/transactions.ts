@@ -1,11 +1,21 @@
-import { 
-  type PublicClient, 
+import {
+  type PublicClient,
+  type WalletClient,
+  type Address,
   type Hash,
+  type Transaction,
   type TransactionReceipt,
   type TransactionRequestBase
 } from 'viem'
 import { watchBlocks } from 'viem/actions'
 import { ProtocolError, ErrorType } from './errors'
+import { DEFAULT_CONFIRMATIONS, GAS_PRICE_INCREASE_FACTOR } from '../config/constants'
+import {
+  TransactionStatus,
+  type TransactionEventCallbacks,
+  type TransactionResult,
+  type ReplacementReason
+} from '../types/transactions'
 
 export interface TransactionOptions extends TransactionRequestBase {
   retryConfig?: {
@@ -14,98 +24,200 @@ export interface TransactionOptions extends TransactionRequestBase {
   };
 }
 
-export enum TransactionStatus {
-  PENDING = 'PENDING',
-  SUCCESS = 'SUCCESS',
-  FAILED = 'FAILED'
+export interface WatchTransactionOptions {
+  confirmations?: number
+  // Blocks a transaction may be missing from the node before it is
+  // reported as dropped
+  droppedAfterBlocks?: number
 }
 
-export interface TransactionState {
-  status: TransactionStatus;
-  hash?: Hash;
-  receipt?: TransactionReceipt;
-  error?: string;
+export interface ReplaceTransactionOptions {
+  // Multiplier applied to the original fees; nodes require at least 1.1
+  feeBumpFactor?: number
 }
 
-export interface TransactionEventCallbacks {
-  onSubmitted?: (hash: Hash) => void;
-  onConfirmed?: (receipt: TransactionReceipt) => void;
-  onFailed?: (error: Error) => void;
-  onBlockMined?: (confirmations: number) => void;
+export interface WatchedTransaction {
+  result: Promise<TransactionResult>
+  unwatch: () => void
 }
 
-export type TransactionResponse = {
-  hash: Hash
-  wait: () => Promise<TransactionReceipt>
+interface Watcher {
+  callbacks: TransactionEventCallbacks
+  resolve: (result: TransactionResult) => void
 }
 
+interface TrackedTransaction {
+  originalHash: Hash
+  // Original first, then any replacements with the same nonce
+  hashes: Hash[]
+  reasons: Map<Hash, ReplacementReason>
+  from?: Address
+  nonce?: number
+  watchers: Watcher[]
+  confirmations: number
+  droppedAfterBlocks: number
+  reportedConfirmations: number
+  reportedReplacement?: Hash
+  seenPending: boolean
+  missingBlocks: number
+  lastScannedBlock?: bigint
+  checking: boolean
+  stop: () => void
+}
+
+type CallbackArgs<K extends keyof TransactionEventCallbacks> =
+  Parameters<NonNullable<TransactionEventCallbacks[K]>>
+
+function bump(value: bigint, factor: number): bigint {
+  return value * BigInt(Math.round(factor * 1000)) / 1000n
+}
+
+function max(a: bigint, b: bigint): bigint {
+  return a > b ? a : b
+}
+
+/**
+ * Tracks submitted transactions to a number of confirmations, follows
+ * replacements (speed-ups, cancellations or any other tx reusing the nonce)
+ * and reports every step through TransactionEventCallbacks.
+ */
 export class TransactionManager {
-  constructor(private publicClient: PublicClient) {}
+  private tracked: Map<Hash, TrackedTransaction> = new Map()
 
-  async monitorTransactionWithUpdates(
+  constructor(
+    private publicClient: PublicClient,
+    private walletClient: WalletClient | null = null
+  ) {}
+
+  setWalletClient(walletClient: WalletClient | null): void {
+    this.walletClient = walletClient
+  }
+
+  /**
+   * Watches `hash` until it (or a replacement) reaches the requested
+   * confirmations, is dropped, or unwatch is called. Watching a hash that
+   * is already tracked adds the callbacks to the existing watch, which
+   * keeps its options.
+   */
+  watchTransaction(
     hash: Hash,
     callbacks: TransactionEventCallbacks = {},
-    confirmations: number = 1
-  ): Promise<void> {
-    callbacks.onSubmitted?.(hash);
-
-    let currentConfirmations = 0
-    const unwatch = watchBlocks(this.publicClient, {
-      onBlock: async () => {
-        try {
-          const receipt = await this.publicClient.getTransactionReceipt({ hash })
-          if (receipt) {
-            if (receipt.status === 'success') {
-              callbacks.onConfirmed?.(receipt)
-            } else {
-              callbacks.onFailed?.(new Error('Transaction failed'))
-            }
-            currentConfirmations++
-            callbacks.onBlockMined?.(currentConfirmations)
-
-            if (currentConfirmations >= confirmations) {
-              unwatch()
-            }
-          }
-        } catch (error) {
-          callbacks.onFailed?.(error instanceof Error ? error : new Error('Unknown error'))
-        }
+    options: WatchTransactionOptions = {}
+  ): WatchedTransaction {
+    let resolve!: (result: TransactionResult) => void
+    const result = new Promise<TransactionResult>(r => { resolve = r })
+    const watcher: Watcher = { callbacks, resolve }
+
+    const existing = this.tracked.get(hash)
+    if (existing) {
+      existing.watchers.push(watcher)
+      return { result, unwatch: () => this.unwatch(existing, watcher) }
+    }
+
+    const entry: TrackedTransaction = {
+      originalHash: hash,
+      hashes: [hash],
+      reasons: new Map(),
+      watchers: [watcher],
+      confirmations: options.confirmations ?? DEFAULT_CONFIRMATIONS,
+      droppedAfterBlocks: options.droppedAfterBlocks ?? 50,
+      reportedConfirmations: 0,
+      seenPending: false,
+      missingBlocks: 0,
+      checking: false,
+      stop: () => undefined
+    }
+
+    entry.stop = watchBlocks(this.publicClient, {
+      emitOnBegin: true,
+      onBlock: block => {
+        if (entry.checking || block.number === null) return
+        entry.checking = true
+        this.check(entry, block.number)
+          .catch(error => {
+            const protocolError = ProtocolError.fromError(error)
+            this.emit(entry, 'onError', protocolError)
+            this.finish(entry, { status: TransactionStatus.FAILED, hash, error: protocolError.message })
+          })
+          .finally(() => { entry.checking = false })
       }
     })
+    this.tracked.set(hash, entry)
+
+    return { result, unwatch: () => this.unwatch(entry, watcher) }
   }
 
+  /**
+   * Awaits a contract write, then tracks it like watchTransaction.
+   */
   async handleTransaction(
     txPromise: Promise<{ hash: Hash; wait: () => Promise<TransactionReceipt> }>,
-    callbacks?: {
-      onSubmitted?: (hash: Hash) => void;
-      onMining?: (confirmations: number) => void;
-      onSuccess?: (receipt: TransactionReceipt) => void;
-      onError?: (error: Error) => void;
-    }
-  ): Promise<TransactionState> {
+    callbacks: TransactionEventCallbacks = {},
+    options: WatchTransactionOptions = {}
+  ): Promise<TransactionResult> {
+    let hash: Hash
     try {
-      const tx = await txPromise;
-      callbacks?.onSubmitted?.(tx.hash);
+      hash = (await txPromise).hash
+    } catch (error) {
+      const protocolError = ProtocolError.fromError(error)
+      callbacks.onError?.(protocolError)
+      return { status: TransactionStatus.FAILED, error: protocolError.message }
+    }
 
-      const receipt = await tx.wait();
-      callbacks?.onSuccess?.(receipt);
+    callbacks.onSubmitted?.(hash)
+    return this.watchTransaction(hash, callbacks, options).result
+  }
 
-      return {
-        status: TransactionStatus.SUCCESS,
-        hash: tx.hash,
-        receipt
-      };
-    } catch (error: any) {
-      callbacks?.onError?.(error);
-      return {
-        status: TransactionStatus.FAILED,
-        error: error.message
-      };
-    }
+  /**
+   * Resends a pending transaction with the same nonce and higher fees.
+   * Returns the replacement hash; watchers of the original keep tracking
+   * whichever of the two gets mined.
+   */
+  async speedUp(hash: Hash, options: ReplaceTransactionOptions = {}): Promise<Hash> {
+    const tx = await this.getPendingTransaction(hash, 'speed up')
+    const newHash = await this.sendReplacement(tx, {
+      to: tx.to ?? undefined,
+      value: tx.value,
+      data: tx.input,
+      gas: tx.gas
+    }, options)
+
+    const entry = this.register(hash, newHash, 'repriced')
+    if (entry) this.emit(entry, 'onSpeedUp', newHash, hash)
+    return newHash
   }
 
-  async waitForTransaction(hash: Hash): Promise<TransactionReceipt> {
-    return await this.publicClient.waitForTransactionReceipt({ hash })
+  /**
+   * Replaces a pending transaction with a zero-value send to self using the
+   * same nonce, so the original can no longer be mined.
+   */
+  async cancel(hash: Hash, options: ReplaceTransactionOptions = {}): Promise<Hash> {
+    const tx = await this.getPendingTransaction(hash, 'cancel')
+    const newHash = await this.sendReplacement(tx, {
+      to: tx.from,
+      value: 0n,
+      data: '0x',
+      gas: 21000n
+    }, options)
+
+    const entry = this.register(hash, newHash, 'cancelled')
+    if (entry) this.emit(entry, 'onCancel', newHash, hash)
+    return newHash
+  }
+
+  async waitForTransaction(
+    hash: Hash,
+    confirmations: number = DEFAULT_CONFIRMATIONS
+  ): Promise<TransactionReceipt> {
+    try {
+      return await this.publicClient.waitForTransactionReceipt({ hash, confirmations })
+    } catch (error) {
+      throw new ProtocolError(
+        `Failed to wait for transaction ${hash}`,
+        ErrorType.TRANSACTION_ERROR,
+        error
+      )
+    }
   }
 
   async getTransactionReceipt(hash: Hash): Promise<TransactionReceipt | null> {
@@ -123,4 +235,259 @@ export class TransactionManager {
   async getGasPrice(): Promise<bigint> {
     return this.publicClient.getGasPrice()
   }
-} 
\ No newline at end of file
+
+  cleanup(): void {
+    this.tracked.forEach(entry => entry.stop())
+    this.tracked.clear()
+  }
+
+  private async check(entry: TrackedTransaction, blockNumber: bigint): Promise<void> {
+    // Newest replacement first: it is the most likely to be mined
+    for (const hash of [...entry.hashes].reverse()) {
+      const receipt = await this.publicClient.getTransactionReceipt({ hash }).catch(() => null)
+      if (receipt) {
+        this.onMined(entry, hash, receipt, blockNumber)
+        return
+      }
+    }
+
+    // Nodes evict the original once a replacement arrives, so any known
+    // hash still in the pool keeps the transaction pending
+    const tx = await this.findPending(entry)
+    if (tx) {
+      entry.from = tx.from
+      entry.nonce = tx.nonce
+      entry.missingBlocks = 0
+      if (!entry.seenPending) {
+        entry.seenPending = true
+        this.emit(entry, 'onPending', entry.originalHash)
+      }
+      // Its nonce is unused up to here, so a replacement search never has
+      // to look further back
+      entry.lastScannedBlock = blockNumber
+      return
+    }
+
+    // The original is gone from the node; see whether its nonce was used
+    if (entry.from && entry.nonce !== undefined) {
+      const nonce = await this.publicClient.getTransactionCount({ address: entry.from, blockTag: 'latest' })
+      if (nonce > entry.nonce) {
+        const replacement = await this.findReplacement(entry, blockNumber)
+        if (replacement) {
+          this.register(entry.originalHash, replacement.hash, replacement.reason)
+          const receipt = await this.publicClient.getTransactionReceipt({ hash: replacement.hash })
+          this.onMined(entry, replacement.hash, receipt, blockNumber)
+          return
+        }
+      }
+    }
+
+    entry.missingBlocks++
+    if (entry.missingBlocks >= entry.droppedAfterBlocks) {
+      this.emit(entry, 'onDropped', entry.originalHash)
+      this.finish(entry, { status: TransactionStatus.DROPPED, hash: entry.originalHash })
+    }
+  }
+
+  private onMined(
+    entry: TrackedTransaction,
+    hash: Hash,
+    receipt: TransactionReceipt,
+    blockNumber: bigint
+  ): void {
+    const reason = entry.reasons.get(hash)
+    if (reason && entry.reportedReplacement !== hash) {
+      entry.reportedReplacement = hash
+      this.emit(entry, 'onReplaced', hash, entry.originalHash, reason)
+    }
+
+    const confirmations = Number(blockNumber - receipt.blockNumber + 1n)
+    if (confirmations > entry.reportedConfirmations) {
+      entry.reportedConfirmations = confirmations
+      this.emit(entry, 'onConfirmation', confirmations, receipt)
+    }
+    if (confirmations < entry.confirmations) return
+
+    const succeeded = receipt.status === 'success'
+    const status = reason === 'cancelled'
+      ? TransactionStatus.CANCELLED
+      : reason === 'replaced'
+        ? TransactionStatus.REPLACED
+        : succeeded ? TransactionStatus.SUCCESS : TransactionStatus.FAILED
+
+    if (status === TransactionStatus.SUCCESS) {
+      this.emit(entry, 'onSuccess', receipt)
+    } else if (status === TransactionStatus.FAILED) {
+      this.emit(entry, 'onError', new ProtocolError(
+        `Transaction ${hash} reverted`,
+        ErrorType.TRANSACTION_FAILED,
+        { hash, receipt }
+      ))
+    }
+
+    this.finish(entry, {
+      status,
+      hash: entry.originalHash,
+      receipt,
+      replacedBy: reason ? hash : undefined
+    })
+  }
+
+  // Scans the blocks mined since the original was last seen for a
+  // transaction from the same sender with the same nonce
+  private async findReplacement(
+    entry: TrackedTransaction,
+    blockNumber: bigint
+  ): Promise<{ hash: Hash; reason: ReplacementReason } | null> {
+    const from = entry.lastScannedBlock ?? blockNumber
+    for (let number = blockNumber; number >= from; number--) {
+      const block = await this.publicClient.getBlock({ blockNumber: number, includeTransactions: true })
+      const replacement = block.transactions.find(tx =>
+        tx.from.toLowerCase() === entry.from!.toLowerCase() && tx.nonce === entry.nonce
+      )
+      if (replacement) {
+        const original = await this.publicClient.getTransaction({ hash: entry.originalHash }).catch(() => null)
+        return { hash: replacement.hash, reason: this.classifyReplacement(replacement, original) }
+      }
+    }
+    entry.lastScannedBlock = blockNumber + 1n
+    return null
+  }
+
+  private async findPending(entry: TrackedTransaction): Promise<Transaction | null> {
+    for (const hash of [...entry.hashes].reverse()) {
+      const tx = await this.publicClient.getTransaction({ hash }).catch(() => null)
+      if (tx) return tx
+    }
+    return null
+  }
+
+  private classifyReplacement(
+    replacement: Transaction,
+    original: Transaction | null
+  ): ReplacementReason {
+    if (replacement.to?.toLowerCase() === replacement.from.toLowerCase() && replacement.value === 0n) {
+      return 'cancelled'
+    }
+    if (
+      original &&
+      replacement.to === original.to &&
+      replacement.value === original.value &&
+      replacement.input === original.input
+    ) {
+      return 'repriced'
+    }
+    return 'replaced'
+  }
+
+  private register(
+    originalHash: Hash,
+    newHash: Hash,
+    reason: ReplacementReason
+  ): TrackedTransaction | undefined {
+    const entry = [...this.tracked.values()].find(tracked => tracked.hashes.includes(originalHash))
+    if (entry && !entry.hashes.includes(newHash)) {
+      entry.hashes.push(newHash)
+      entry.reasons.set(newHash, reason)
+    }
+    return entry
+  }
+
+  private async getPendingTransaction(hash: Hash, action: string): Promise<Transaction> {
+    const [tx, receipt] = await Promise.all([
+      this.publicClient.getTransaction({ hash }).catch(() => null),
+      this.publicClient.getTransactionReceipt({ hash }).catch(() => null)
+    ])
+    if (receipt) {
+      throw new ProtocolError(
+        `Cannot ${action} ${hash}: it was already mined in block ${receipt.blockNumber}`,
+        ErrorType.TRANSACTION_ERROR,
+        { hash }
+      )
+    }
+    if (!tx) {
+      throw new ProtocolError(
+        `Cannot ${action} ${hash}: the node does not know this transaction`,
+        ErrorType.TRANSACTION_ERROR,
+        { hash }
+      )
+    }
+
+    const account = this.walletClient?.account
+    if (!account) {
+      throw new ProtocolError(
+        `Cannot ${action} ${hash}: no wallet is connected (read-only mode)`,
+        ErrorType.WALLET_NOT_CONNECTED,
+        { hash }
+      )
+    }
+    if (account.address.toLowerCase() !== tx.from.toLowerCase()) {
+      throw new ProtocolError(
+        `Cannot ${action} ${hash}: it was sent by ${tx.from}, not ${account.address}`,
+        ErrorType.UNAUTHORIZED,
+        { hash, from: tx.from }
+      )
+    }
+    return tx
+  }
+
+  private async sendReplacement(
+    original: Transaction,
+    request: { to?: Address; value: bigint; data: `0x${string}`; gas: bigint },
+    options: ReplaceTransactionOptions
+  ): Promise<Hash> {
+    const factor = options.feeBumpFactor ?? GAS_PRICE_INCREASE_FACTOR
+
+    try {
+      const fees = original.maxFeePerGas !== undefined
+        ? await this.publicClient.estimateFeesPerGas().then(current => ({
+            maxFeePerGas: max(bump(original.maxFeePerGas!, factor), current.maxFeePerGas),
+            maxPriorityFeePerGas: max(
+              bump(original.maxPriorityFeePerGas ?? 0n, factor),
+              current.maxPriorityFeePerGas
+            )
+          }))
+        : { gasPrice: max(bump(original.gasPrice ?? 0n, factor), await this.publicClient.getGasPrice()) }
+
+      return await this.walletClient!.sendTransaction({
+        account: this.walletClient!.account!,
+        chain: this.walletClient!.chain,
+        nonce: original.nonce,
+        ...request,
+        ...fees
+      })
+    } catch (error) {
+      throw new ProtocolError(
+        `Failed to replace transaction ${original.hash}`,
+        ErrorType.TRANSACTION_ERROR,
+        error
+      )
+    }
+  }
+
+  private emit<K extends keyof TransactionEventCallbacks>(
+    entry: TrackedTransaction,
+    event: K,
+    ...args: CallbackArgs<K>
+  ): void {
+    entry.watchers.forEach(({ callbacks }) => {
+      (callbacks[event] as ((...params: CallbackArgs<K>) => void) | undefined)?.(...args)
+    })
+  }
+
+  // Stops tracking once the last watcher is gone
+  private unwatch(entry: TrackedTransaction, watcher: Watcher): void {
+    entry.watchers = entry.watchers.filter(other => other !== watcher)
+    if (entry.watchers.length === 0) this.stopTracking(entry)
+  }
+
+  private stopTracking(entry: TrackedTransaction): void {
+    entry.stop()
+    this.tracked.delete(entry.originalHash)
+  }
+
+  private finish(entry: TrackedTransaction, result: TransactionResult): void {
+    this.stopTracking(entry)
+    entry.watchers.forEach(watcher => watcher.resolve(result))
+  }
+}
@@ -0,0 +1,311 @@
+import {
+  type PublicClient,
+  type WalletClient,
+  type Address,
+  type Hash,
+  type Log
+} from 'viem'
+import { EventManager, PROTOCOL_EVENT_ABIS } from './events'
+import { EventIndexer, type EventIndexerOptions } from './eventIndexer'
+import { ProtocolError } from './errors'
+import { DeedNFTContract } from '../contracts/DeedNFTContract'
+import { ValidatorRegistryContract } from '../contracts/ValidatorRegistryContract'
+import { ValidatorContract } from '../contracts/ValidatorContract'
+import { type ContractOptions } from '../contracts/BaseContract'
+import { AssetType, PendingValidation, ValidatorInfo } from '../types'
+
+type DecodedLog<T> = Log<bigint, number, false> & { args: T }
+
+type DeedCreatedArgs = { deedId: bigint; owner: Address; assetType: bigint }
+
+export interface PendingValidationsOptions {
+  // Usually the DeedNFT deployment block
+  fromBlock?: bigint
+  toBlock?: bigint
+}
+
+export interface ValidatorListOptions {
+  // Only validators registered for this asset type; all types by default
+  assetType?: AssetType
+  activeOnly?: boolean
+}
+
+export interface ValidatorRecord {
+  address: Address
+  owner: Address
+  info: ValidatorInfo
+  isActive: boolean
+  // Null when the validator contract does not answer
+  defaultOperatingAgreement: string | null
+  defaultOperatingAgreementName: string | null
+  contract: ValidatorContract
+}
+
+/**
+ * Validator-facing queries that combine the registry, DeedNFT and the
+ * validators' own contracts. Exposed as `sdk.validators`.
+ */
+export class ValidatorManager {
+  private validators: Map<string, ValidatorContract> = new Map()
+
+  constructor(
+    private publicClient: PublicClient,
+    private walletClient: WalletClient | null,
+    private events: EventManager,
+    private deedNFT: DeedNFTContract,
+    private registry: ValidatorRegistryContract,
+    private options: ContractOptions = {},
+    private indexerOptions: Omit<EventIndexerOptions, 'store'> = {}
+  ) {}
+
+  setWalletClient(walletClient: WalletClient | null): void {
+    this.walletClient = walletClient
+    this.validators.forEach(validator => validator.setWalletClient(walletClient))
+  }
+
+  /**
+   * Returns a ValidatorContract for `address`, sharing this SDK's wallet
+   * and batching options.
+   */
+  getValidator(address: Address): ValidatorContract {
+    const key = address.toLowerCase()
+    let validator = this.validators.get(key)
+    if (!validator) {
+      validator = new ValidatorContract(this.publicClient, this.walletClient, address, this.options)
+      this.validators.set(key, validator)
+    }
+    return validator
+  }
+
+  /**
+   * Lists registered validators with their registry info, owner, default
+   * operating agreement and a ValidatorContract connected to this SDK.
+   */
+  async list(options: ValidatorListOptions = {}): Promise<ValidatorRecord[]> {
+    try {
+      const assetTypes = options.assetType !== undefined
+        ? [options.assetType]
+        : (Object.values(AssetType).filter(value => typeof value === 'number') as AssetType[])
+
+      const addresses = new Map<string, Address>()
+      const perType = await Promise.all(
+        assetTypes.map(assetType => this.registry.getValidatorsForAssetType(assetType))
+      )
+      perType.flat().forEach(address => addresses.set(address.toLowerCase(), address as Address))
+
+      const records = await Promise.all(
+        [...addresses.values()].map(address => this.getRecord(address))
+      )
+      return options.activeOnly ? records.filter(record => record.isActive) : records
+    } catch (error) {
+      throw new ProtocolError(
+        'Failed to list validators',
+        ProtocolError.fromError(error).code,
+        error
+      )
+    }
+  }
+
+  private async getRecord(address: Address): Promise<ValidatorRecord> {
+    const contract = this.getValidator(address)
+    const [info, owner, registryActive, defaultOperatingAgreement] = await Promise.all([
+      this.registry.getValidatorInfo(address),
+      this.registry.getValidatorOwner(address),
+      this.registry.isValidatorActive(address),
+      contract.defaultOperatingAgreement().catch(() => null)
+    ])
+    const defaultOperatingAgreementName = defaultOperatingAgreement
+      ? await contract.operatingAgreementName(defaultOperatingAgreement).catch(() => null)
+      : null
+
+    return {
+      address,
+      owner,
+      info,
+      isActive: registryActive && info.isActive,
+      defaultOperatingAgreement,
+      defaultOperatingAgreementName,
+      contract
+    }
+  }
+
+  /**
+   * Lists unvalidated deeds whose asset type `validatorAddress` supports
+   * and is approved for in the registry, oldest first. Logs are read
+   * through EventIndexer, so ranges a provider rejects are split.
+   */
+  async getPendingValidations(
+    validatorAddress: Address,
+    options: PendingValidationsOptions = {}
+  ): Promise<PendingValidation[]> {
+    try {
+      const range = {
+        fromBlock: options.fromBlock ?? 0n,
+        toBlock: options.toBlock ?? await this.publicClient.getBlockNumber()
+      }
+      // A fresh in-memory store per call: both events are read over the whole range
+      const indexer = new EventIndexer(this.events, this.publicClient, this.indexerOptions)
+      const [created, validated] = await Promise.all([
+        this.fetch<DeedCreatedArgs>(indexer, 'DeedCreated', range),
+        this.fetch<{ deedId: bigint }>(indexer, 'DeedValidated', range)
+      ])
+
+      const validatedIds = new Set(validated.map(log => log.args.deedId))
+      const candidates = created.filter(log => !validatedIds.has(log.args.deedId))
+      if (candidates.length === 0) return []
+
+      // On-chain state wins over logs, e.g. for validations before fromBlock
+      const infos = await this.deedNFT.getDeedInfos(candidates.map(log => log.args.deedId))
+      const unvalidated = candidates.filter((_, i) => {
+        const info = infos[i]
+        return info.success && !info.deedInfo.isValidated
+      })
+
+      const supported = await this.getSupportedAssetTypes(
+        validatorAddress,
+        unvalidated.map(log => Number(log.args.assetType) as AssetType)
+      )
+      const pending = unvalidated.filter(log => supported.has(Number(log.args.assetType)))
+
+      const entries = await Promise.all(pending.map(log => this.toPendingValidation(log)))
+      return entries.filter((entry): entry is PendingValidation => entry !== null)
+    } catch (error) {
+      throw new ProtocolError(
+        `Failed to load pending validations for ${validatorAddress}`,
+        ProtocolError.fromError(error).code,
+        error
+      )
+    }
+  }
+
+  /**
+   * Live version of getPendingValidations: onChange receives the full list
+   * after the initial load and again whenever DeedCreated or DeedValidated
+   * changes it. Returns an unsubscribe function.
+   */
+  watchPendingValidations(
+    validatorAddress: Address,
+    onChange: (pending: PendingValidation[]) => void,
+    options: PendingValidationsOptions & { onError?: (error: ProtocolError) => void } = {}
+  ): () => void {
+    const pending: Map<bigint, PendingValidation> = new Map()
+    const supportCache: Map<number, Promise<boolean>> = new Map()
+    // Deeds validated while the initial list loads; that list may predate them
+    let validatedDuringLoad: Set<bigint> | null = new Set()
+    let stopped = false
+
+    const emit = () => {
+      if (!stopped) {
+        onChange([...pending.values()].sort((a, b) =>
+          a.blockNumber === b.blockNumber ? 0 : a.blockNumber < b.blockNumber ? -1 : 1
+        ))
+      }
+    }
+    const fail = (error: unknown) => options.onError?.(ProtocolError.fromError(error))
+
+    const supports = (assetType: number) => {
+      let result = supportCache.get(assetType)
+      if (!result) {
+        result = this.getSupportedAssetTypes(validatorAddress, [assetType as AssetType])
+          .then(types => types.has(assetType))
+        supportCache.set(assetType, result)
+      }
+      return result
+    }
+
+    const unsubscribeCreated = this.events.on('deedNFT', 'DeedCreated', (deedId, owner, assetType, log) => {
+      supports(Number(assetType))
+        .then(async isSupported => {
+          if (!isSupported) return
+          const entry = await this.toPendingValidation(
+            { ...log, args: { deedId, owner, assetType } } as DecodedLog<DeedCreatedArgs>
+          )
+          if (entry) {
+            pending.set(deedId, entry)
+            emit()
+          }
+        })
+        .catch(fail)
+    })
+
+    const unsubscribeValidated = this.events.on('deedNFT', 'DeedValidated', deedId => {
+      validatedDuringLoad?.add(deedId)
+      if (pending.delete(deedId)) emit()
+    })
+
+    this.getPendingValidations(validatorAddress, options)
+      .then(initial => {
+        initial.forEach(entry => {
+          if (!pending.has(entry.deedId) && !validatedDuringLoad?.has(entry.deedId)) {
+            pending.set(entry.deedId, entry)
+          }
+        })
+        emit()
+      })
+      .catch(fail)
+      .finally(() => {
+        validatedDuringLoad = null
+      })
+
+    return () => {
+      stopped = true
+      unsubscribeCreated()
+      unsubscribeValidated()
+    }
+  }
+
+  private async fetch<T>(
+    indexer: EventIndexer,
+    eventName: string,
+    range: { fromBlock: bigint; toBlock: bigint }
+  ): Promise<DecodedLog<T>[]> {
+    const logs: Log[] = []
+    await indexer.indexEvents({
+      address: this.deedNFT.getAddress(),
+      abi: PROTOCOL_EVENT_ABIS.deedNFT,
+      eventName,
+      fromBlock: range.fromBlock,
+      toBlock: range.toBlock,
+      onLogs: chunk => {
+        logs.push(...chunk)
+      }
+    })
+    return logs as DecodedLog<T>[]
+  }
+
+  private async getSupportedAssetTypes(
+    validatorAddress: Address,
+    assetTypes: AssetType[]
+  ): Promise<Set<number>> {
+    const validator = this.getValidator(validatorAddress)
+    const unique = [...new Set(assetTypes)]
+    const checks = await Promise.all(unique.map(async assetType => {
+      const [supports, approved] = await Promise.all([
+        validator.supportsAssetType(BigInt(assetType)),
+        this.registry.isValidatorApproved(validatorAddress, assetType)
+      ])
+      return supports && approved
+    }))
+    return new Set(unique.filter((_, i) => checks[i]))
+  }
+
+  // Burned deeds have no owner and are dropped
+  private async toPendingValidation(
+    log: DecodedLog<DeedCreatedArgs>
+  ): Promise<PendingValidation | null> {
+    const [owner, block] = await Promise.all([
+      this.deedNFT.ownerOf(log.args.deedId).catch(() => null),
+      this.publicClient.getBlock({ blockNumber: log.blockNumber })
+    ])
+    if (!owner) return null
+
+    return {
+      deedId: log.args.deedId,
+      assetType: Number(log.args.assetType) as AssetType,
+      owner,
+      mintedAt: block.timestamp,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash as Hash
+    }
+  }
+}
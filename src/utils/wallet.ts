@@ -1,11 +1,3 @@
-import { 
-  AppKit,
-  createAppKit,
-  type AppKitOptions
-} from '@reown/appkit'
-import { 
-  WagmiAdapter 
-} from '@reown/appkit-adapter-wagmi'
 import { 
   type PublicClient, 
   type WalletClient, 
@@ -13,68 +5,22 @@ import {
   http
 } from 'viem'
 import { ProtocolError, ErrorType } from './errors'
+import { type SignerAdapter, AppKitSignerAdapter, resolveRpcUrl } from './signers'
 import type { WalletConfig } from '../types/config'
 
 export class WalletManager {
   private publicClient: PublicClient | null = null
-  private appKit: AppKit | null = null
+  private signer: SignerAdapter | null = null
   private walletClient: WalletClient | null = null
 
-  constructor(private config: WalletConfig = {}) {
-    this.initializeAppKit()
-  }
+  constructor(private config: WalletConfig = {}) {}
 
-  private initializeAppKit() {
-    const projectId = this.config.walletConnectProjectId
-    if (!projectId) {
-      throw new ProtocolError(
-        'WalletConnect project ID is required',
-        ErrorType.INVALID_CONFIG
-      )
+  // Falls back to AppKit when no adapter is configured
+  getSigner(): SignerAdapter {
+    if (!this.signer) {
+      this.signer = this.config.signer ?? new AppKitSignerAdapter(this.config)
     }
-
-    const defaultRpcUrl = this.validateRpcUrl(this.config.fallbackRpcUrl)
-
-    const mainnet = {
-      id: 1,
-      name: 'Ethereum Mainnet',
-      nativeCurrency: {
-        name: 'Ether',
-        symbol: 'ETH',
-        decimals: 18
-      },
-      rpcUrls: {
-        default: { http: [defaultRpcUrl] as [string] },
-        public: { http: [defaultRpcUrl] as [string] }
-      }
-    } as const
-
-    const additionalNetworks = (this.config.supportedChainIds || []).slice(1).map(id => ({
-      id,
-      name: `Chain ${id}`,
-      nativeCurrency: {
-        name: 'Ether',
-        symbol: 'ETH',
-        decimals: 18
-      },
-      rpcUrls: {
-        default: { http: [defaultRpcUrl] as [string] },
-        public: { http: [defaultRpcUrl] as [string] }
-      }
-    }))
-
-    const networks = [mainnet, ...additionalNetworks]
-
-    const options: AppKitOptions = {
-      projectId,
-      networks: [networks[0], ...networks.slice(1)],
-      adapters: [new WagmiAdapter({
-        networks: [networks[0], ...networks.slice(1)],
-        projectId
-      })]
-    }
-
-    this.appKit = createAppKit(options)
+    return this.signer
   }
 
   async connect(): Promise<{ 
@@ -83,21 +29,12 @@ export class WalletManager {
   }> {
     try {
       if (!this.publicClient || !this.walletClient) {
-        await this.appKit?.open()
+        this.walletClient = await this.getSigner().connect()
 
-        const rpcUrl = this.validateRpcUrl(this.config.fallbackRpcUrl)
+        const rpcUrl = resolveRpcUrl(this.config.fallbackRpcUrl)
         this.publicClient = createPublicClient({
           transport: http(rpcUrl)
         })
-
-        const walletInfo = await this.appKit?.getWalletInfo()
-        if (!walletInfo?.client) {
-          throw new ProtocolError(
-            'Failed to get wallet client',
-            ErrorType.WALLET_CONNECTION
-          )
-        }
-        this.walletClient = walletInfo.client as WalletClient
       }
 
       if (!this.publicClient || !this.walletClient) {
@@ -118,8 +55,8 @@ export class WalletManager {
 
   async disconnect(): Promise<void> {
     try {
-      if (this.appKit) {
-        await this.appKit.disconnect()
+      if (this.signer) {
+        await this.signer.disconnect()
         this.cleanup()
       }
     } catch (error) {
@@ -129,26 +66,14 @@ export class WalletManager {
 
   async switchNetwork(networkId: number): Promise<void> {
     try {
-      if (!this.appKit) {
+      const signer = this.getSigner()
+      if (!signer.switchNetwork) {
         throw new ProtocolError(
-          'AppKit not initialized',
+          `Signer "${signer.type}" cannot switch networks`,
           ErrorType.WALLET_CONNECTION
         )
       }
-      const network = {
-        id: networkId,
-        name: `Chain ${networkId}`,
-        nativeCurrency: {
-          name: 'Ether',
-          symbol: 'ETH',
-          decimals: 18
-        },
-        rpcUrls: {
-          default: { http: [this.config.fallbackRpcUrl || ''] },
-          public: { http: [this.config.fallbackRpcUrl || ''] }
-        }
-      }
-      await this.appKit.switchNetwork(network)
+      await signer.switchNetwork(networkId)
     } catch (error) {
       throw ProtocolError.fromError(error)
     }
@@ -183,20 +108,6 @@ export class WalletManager {
     }
   }
 
-  private validateRpcUrl(fallbackRpcUrl?: string): string {
-    const defaultRpcUrl = 'https://eth-mainnet.g.alchemy.com/v2/your-api-key'
-    const rpcUrl = fallbackRpcUrl || defaultRpcUrl
-
-    if (!rpcUrl.startsWith('http')) {
-      throw new ProtocolError(
-        'Invalid RPC URL format',
-        ErrorType.INVALID_CONFIG
-      )
-    }
-
-    return rpcUrl
-  }
-
   private cleanup(): void {
     this.publicClient = null
     this.walletClient = null
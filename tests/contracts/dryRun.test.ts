@@ -0,0 +1,93 @@
+import { type PublicClient, type WalletClient } from 'viem';
+import { ValidatorRegistryContract } from '../../src/contracts/ValidatorRegistryContract';
+import { DeedNFTContract } from '../../src/contracts/DeedNFTContract';
+import { type IPFSClient } from '../../src/utils/ipfs';
+import { AssetType } from '../../src/types';
+
+const account = { address: '0x00000000000000000000000000000000000000a1', type: 'json-rpc' } as const;
+const registry = '0x0000000000000000000000000000000000000001';
+const validator = '0x0000000000000000000000000000000000000002';
+
+describe('BaseContract.dryRun', () => {
+  let simulateCalls: jest.Mock;
+  let simulateContract: jest.Mock;
+  let writeContract: jest.Mock;
+  let contract: ValidatorRegistryContract;
+
+  beforeEach(() => {
+    simulateCalls = jest.fn().mockResolvedValue({
+      results: [{ status: 'success', result: undefined, logs: [] }]
+    });
+    simulateContract = jest.fn().mockResolvedValue({ result: undefined, request: {} });
+    writeContract = jest.fn();
+    const publicClient = {
+      simulateCalls,
+      simulateContract,
+      estimateContractGas: jest.fn().mockResolvedValue(50_000n),
+      estimateFeesPerGas: jest.fn().mockResolvedValue({ maxFeePerGas: 10n, maxPriorityFeePerGas: 1n })
+    } as unknown as PublicClient;
+    const walletClient = { account, writeContract } as unknown as WalletClient;
+    contract = new ValidatorRegistryContract(publicClient, walletClient, registry);
+  });
+
+  it('reports gas, fees and events without sending', async () => {
+    const report = await contract.dryRun().updateValidatorStatus(validator, true);
+
+    expect(report).toMatchObject({
+      method: 'updateValidatorStatus',
+      args: [validator, true],
+      success: true,
+      gas: 50_000n,
+      maxCost: 500_000n,
+      events: []
+    });
+    expect(writeContract).not.toHaveBeenCalled();
+  });
+
+  it('falls back to simulateContract when the node cannot simulate logs', async () => {
+    simulateCalls.mockRejectedValue(new Error('the method eth_simulateV1 does not exist'));
+
+    const report = await contract.dryRun().updateValidatorStatus(validator, false);
+
+    expect(report.success).toBe(true);
+    expect(report.events).toBeNull();
+    expect(simulateContract).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves the original contract sending transactions', async () => {
+    writeContract.mockResolvedValue('0xabc');
+    await contract.dryRun().updateValidatorStatus(validator, true);
+
+    await expect(contract.updateValidatorStatus(validator, true)).resolves.toMatchObject({ hash: '0xabc' });
+    expect(writeContract).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('DeedNFTContract.dryRun().mintAsset', () => {
+  it('computes the details CID without uploading it', async () => {
+    const simulateContract = jest.fn().mockResolvedValue({ result: 1n, request: {} });
+    const publicClient = {
+      simulateCalls: jest.fn().mockResolvedValue({ results: [{ status: 'success', result: 1n, logs: [] }] }),
+      simulateContract,
+      estimateContractGas: jest.fn().mockResolvedValue(50_000n),
+      estimateFeesPerGas: jest.fn().mockResolvedValue({ maxFeePerGas: 10n, maxPriorityFeePerGas: 1n })
+    } as unknown as PublicClient;
+    const walletClient = { account, writeContract: jest.fn() } as unknown as WalletClient;
+    const ipfsClient = {
+      addFile: jest.fn().mockResolvedValue('bafyuploaded'),
+      hashFile: jest.fn().mockResolvedValue('bafyhashed')
+    } as unknown as IPFSClient;
+    const contract = new DeedNFTContract(publicClient, walletClient, registry, { ipfsClient });
+
+    const report = await contract.dryRun().mintAsset(validator, AssetType.Land, 'ipfs://agreement', 'definition', 'configuration');
+
+    expect(report.success).toBe(true);
+    expect(report.args[2]).toBe('bafyhashed');
+    expect(ipfsClient.hashFile).toHaveBeenCalledWith(JSON.stringify({
+      operatingAgreement: 'ipfs://agreement',
+      definition: 'definition',
+      configuration: 'configuration'
+    }));
+    expect(ipfsClient.addFile).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,204 @@
+import { type Address, type Log, type PublicClient, type WalletClient, ContractFunctionRevertedError } from 'viem';
+import { FractionalizeContract } from '../../src/contracts/FractionalizeContract';
+import { ProtocolError, ErrorType } from '../../src/utils/errors';
+import { type FractionInfo, type UnlockStatus } from '../../src/types';
+
+const account = { address: '0x00000000000000000000000000000000000000a1', type: 'json-rpc' } as const;
+const fractionalize = '0x0000000000000000000000000000000000000f10';
+const holder: Address = '0x00000000000000000000000000000000000000Bb';
+const other: Address = '0x00000000000000000000000000000000000000c3';
+
+function log(eventName: string, blockNumber: bigint, logIndex: number, args: Record<string, unknown>) {
+  return { eventName, blockNumber, logIndex, args } as unknown as Log;
+}
+
+describe('FractionalizeContract shares', () => {
+  let info: FractionInfo;
+  let balances: Record<string, bigint>;
+  let logs: Log[];
+  let getContractEvents: jest.Mock;
+  let writeContract: jest.Mock;
+  let onLogs: (() => void)[];
+  let reads: Record<string, (args: readonly unknown[]) => unknown>;
+  let contract: FractionalizeContract;
+
+  beforeEach(() => {
+    info = {
+      name: 'Deed 1',
+      description: '',
+      symbol: 'D1',
+      collectionUri: '',
+      totalShares: 1000,
+      activeShares: 400,
+      maxSharesPerWallet: 300,
+      requiredApprovalPercentage: 60,
+      isActive: true,
+      burnable: true,
+      assetType: 0,
+      originalTokenId: 1,
+      collectionAdmin: account.address
+    };
+    balances = { [account.address]: 200n, [holder.toLowerCase()]: 100n };
+    logs = [];
+    onLogs = [];
+
+    reads = {
+      getFractionInfo: () => info,
+      canReceiveShares: () => true,
+      balanceOf: ([, address]) => balances[(address as string).toLowerCase()] ?? 0n,
+      getVotingPower: ([, address]) => balances[(address as string).toLowerCase()] ?? 0n
+    };
+    getContractEvents = jest.fn(async ({ eventName }) => logs.filter(entry => (entry as { eventName?: string }).eventName === eventName));
+    const publicClient = {
+      readContract: jest.fn(async ({ functionName, args }) => reads[functionName](args)),
+      simulateContract: jest.fn(async ({ functionName, args }) => ({ request: { functionName, args } })),
+      getBlockNumber: jest.fn().mockResolvedValue(99n),
+      getContractEvents,
+      watchContractEvent: jest.fn(params => {
+        onLogs.push(params.onLogs);
+        return () => undefined;
+      })
+    } as unknown as PublicClient;
+
+    writeContract = jest.fn(async ({ functionName }) => `0x${functionName}`);
+    const walletClient = { account, writeContract } as unknown as WalletClient;
+    contract = new FractionalizeContract(publicClient, walletClient, fractionalize, {
+      retry: { read: { maxAttempts: 1 }, events: { maxAttempts: 1 } }
+    });
+  });
+
+  const sent = () => writeContract.mock.calls.map(([request]) => [request.functionName, request.args]);
+
+  async function rejection(promise: Promise<unknown>): Promise<ProtocolError> {
+    const error: unknown = await promise.catch(e => e);
+    expect(error).toBeInstanceOf(ProtocolError);
+    return error as ProtocolError;
+  }
+
+  it('mints shares within the remaining supply and per-wallet cap', async () => {
+    await contract.mintShares(1n, other, 300n);
+
+    expect(sent()).toEqual([['mintShares', [1n, 300n, other]]]);
+  });
+
+  it('refuses to mint more shares than remain', async () => {
+    const error = await rejection(contract.batchMintShares(1n, [
+      { to: other, amount: 300n },
+      { to: account.address, amount: 301n }
+    ]));
+
+    expect(error.code).toBe(ErrorType.VALIDATION_ERROR);
+    expect(error.message).toContain('only 600 remain');
+    expect(writeContract).not.toHaveBeenCalled();
+  });
+
+  it('sums amounts to one wallet however its address is cased', async () => {
+    const error = await rejection(contract.batchMintShares(1n, [
+      { to: holder, amount: 100n },
+      { to: holder.toLowerCase() as Address, amount: 150n }
+    ]));
+
+    expect(error.message).toContain('would hold 350 shares');
+    expect(error.details).toMatchObject({ balance: 100n, amount: 250n, maxSharesPerWallet: 300n });
+  });
+
+  it('checks the sender balance before transferring or burning', async () => {
+    const transfer = await rejection(contract.transferShares(1n, other, 201n));
+    expect(transfer.message).toContain('sender only holds 200');
+
+    info.burnable = false;
+    const burn = await rejection(contract.burnShares(1n, 10n));
+    expect(burn.message).toContain('not burnable');
+
+    await contract.transferShares(1n, other, 200n);
+    expect(sent()).toEqual([['transferShares', [1n, other, 200n]]]);
+  });
+
+  it('rebuilds holders from share events, splitting rejected ranges', async () => {
+    logs = [
+      log('SharesMinted', 10n, 0, { fractionId: 1n, to: account.address, amount: 300n }),
+      log('SharesTransferred', 20n, 0, { fractionId: 1n, from: account.address, to: holder, amount: 100n }),
+      log('SharesBurned', 20n, 1, { fractionId: 1n, from: holder.toLowerCase(), amount: 100n }),
+      log('SharesMinted', 80n, 0, { fractionId: 1n, to: holder, amount: 50n })
+    ];
+    getContractEvents.mockImplementation(async ({ eventName, fromBlock, toBlock }) => {
+      if (toBlock - fromBlock >= 50n) throw new Error('block range is too large');
+      return logs.filter(entry =>
+        (entry as { eventName?: string }).eventName === eventName &&
+        entry.blockNumber! >= fromBlock &&
+        entry.blockNumber! <= toBlock
+      );
+    });
+
+    const holders = await contract.getShareHolders(1n);
+
+    expect(holders).toEqual([
+      { address: account.address, balance: 200n },
+      { address: holder, balance: 50n }
+    ]);
+    expect(getContractEvents).toHaveBeenCalledWith(expect.objectContaining({
+      eventName: 'SharesMinted',
+      args: { fractionId: 1n },
+      fromBlock: 0n,
+      toBlock: 99n
+    }));
+  });
+
+  it('tallies unlock approvals by current voting power', async () => {
+    logs = [
+      log('UnlockApproved', 30n, 0, { fractionId: 1n, approver: account.address }),
+      log('UnlockApproved', 31n, 0, { fractionId: 1n, approver: account.address }),
+      log('UnlockApproved', 32n, 0, { fractionId: 1n, approver: holder })
+    ];
+
+    const status = await contract.getUnlockStatus(1n);
+
+    expect(status).toMatchObject({
+      approvers: [account.address, holder],
+      approvedVotingPower: 300n,
+      totalVotingPower: 400n,
+      approvalPercentage: 75,
+      thresholdMet: true,
+      unlocked: false
+    });
+  });
+
+  it('reports failed holder and unlock reads with the code of their cause', async () => {
+    getContractEvents.mockRejectedValue(new Error('fetch failed'));
+    const network = await rejection(contract.getShareHolders(1n));
+    expect(network).toMatchObject({ code: ErrorType.NETWORK_ERROR, retryable: true });
+    expect(network.message).toBe('Failed to load holders for fraction 1');
+
+    getContractEvents.mockResolvedValue([]);
+    reads.getFractionInfo = () => {
+      throw new ContractFunctionRevertedError({ abi: [], functionName: 'getFractionInfo', message: 'unknown fraction' });
+    };
+    const revert = await rejection(contract.getUnlockStatus(2n));
+    expect(revert).toMatchObject({ code: ErrorType.CONTRACT_ERROR, retryable: false });
+  });
+
+  it('drops an unlock status that resolves after a newer one', async () => {
+    const reads: ((status: UnlockStatus) => void)[] = [];
+    jest.spyOn(contract, 'getUnlockStatus').mockImplementation(
+      () => new Promise(resolve => reads.push(resolve))
+    );
+    const statuses: bigint[] = [];
+
+    const unwatch = contract.watchUnlockStatus(1n, status => statuses.push(status.approvedVotingPower));
+    onLogs[0]();
+    // The second read, started by the approval, resolves before the initial one
+    reads[1]({ approvedVotingPower: 300n } as UnlockStatus);
+    await Promise.resolve();
+    reads[0]({ approvedVotingPower: 0n } as UnlockStatus);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(statuses).toEqual([300n]);
+
+    onLogs[1]();
+    unwatch();
+    reads[2]({ approvedVotingPower: 400n } as UnlockStatus);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(statuses).toEqual([300n]);
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  ContractFunctionRevertedError,
+  domainSeparator,
+  type Address,
+  type PublicClient,
+  type WalletClient
+} from 'viem';
+import { FundManagerContract } from '../../src/contracts/FundManagerContract';
+import { ERC20ABI } from '../../src/abis';
+import { AssetType } from '../../src/types';
+
+const account = { address: '0x00000000000000000000000000000000000000a1', type: 'json-rpc' } as const;
+const fundManager = '0x0000000000000000000000000000000000000f00';
+const token: Address = '0x0000000000000000000000000000000000000e20';
+
+const params = {
+  assetType: AssetType.Land,
+  ipfsDetailsHash: 'ipfs://details',
+  operatingAgreement: 'ipfs://agreement',
+  definition: 'definition',
+  configuration: 'configuration',
+  validatorContract: '0x0000000000000000000000000000000000000002' as Address,
+  token,
+  ipfsTokenURI: 'ipfs://token'
+};
+
+describe('FundManagerContract.mintDeedNFT payment', () => {
+  let allowance: bigint;
+  let writeContract: jest.Mock;
+  let signTypedData: jest.Mock;
+  let contract: FundManagerContract;
+
+  beforeEach(() => {
+    allowance = 0n;
+    // The token supports permit, so 'auto' picking approve is a choice
+    const domain = { name: 'Token', version: '1', chainId: 1, verifyingContract: token };
+    const reads: Record<string, (args: readonly unknown[]) => unknown> = {
+      isTokenWhitelisted: () => true,
+      getServiceFee: () => 100n,
+      balanceOf: () => 1000n,
+      allowance: () => allowance,
+      name: () => domain.name,
+      version: () => domain.version,
+      DOMAIN_SEPARATOR: () => domainSeparator({ domain }),
+      nonces: () => 0n
+    };
+
+    const publicClient = {
+      readContract: jest.fn(async ({ functionName, args }) => reads[functionName](args)),
+      getChainId: jest.fn().mockResolvedValue(1),
+      // USDT-style: one non-zero allowance cannot replace another
+      simulateContract: jest.fn(async ({ functionName, args }) => {
+        if (functionName === 'approve' && args[1] !== 0n && allowance !== 0n) {
+          throw new ContractFunctionRevertedError({ abi: ERC20ABI, functionName, data: '0x' });
+        }
+        return { request: { functionName, args } };
+      }),
+      waitForTransactionReceipt: jest.fn().mockResolvedValue({ status: 'success' })
+    } as unknown as PublicClient;
+
+    writeContract = jest.fn(async ({ functionName, args }) => {
+      if (functionName === 'approve') allowance = args[1];
+      return `0x${functionName}`;
+    });
+    signTypedData = jest.fn().mockResolvedValue(`0x${'ab'.repeat(64)}1b`);
+    const walletClient = { account, writeContract, signTypedData } as unknown as WalletClient;
+    contract = new FundManagerContract(publicClient, walletClient, fundManager);
+  });
+
+  const sent = () => writeContract.mock.calls.map(([request]) => [request.functionName, request.args[1]]);
+
+  it('skips approval when the allowance covers the fee', async () => {
+    allowance = 100n;
+
+    const { payment } = await contract.mintDeedNFT(params);
+
+    expect(payment.steps).toEqual([{ type: 'allowance-sufficient', allowance: 100n }]);
+    expect(sent().map(([name]) => name)).toEqual(['mintDeedNFT']);
+  });
+
+  it('approves in auto mode even when the token supports permit', async () => {
+    const { payment } = await contract.mintDeedNFT(params);
+
+    expect(payment.steps).toEqual([{ type: 'approve', hash: '0xapprove', amount: 100n }]);
+    expect(signTypedData).not.toHaveBeenCalled();
+    expect(sent().map(([name]) => name)).toEqual(['approve', 'mintDeedNFT']);
+  });
+
+  it('resets a non-zero allowance before approving again', async () => {
+    allowance = 40n;
+
+    const { payment } = await contract.mintDeedNFT(params, { approval: 'approve' });
+
+    expect(payment.steps.map(step => 'amount' in step && step.amount)).toEqual([0n, 100n]);
+    expect(sent()).toEqual([['approve', 0n], ['approve', 100n], ['mintDeedNFT', params.ipfsDetailsHash]]);
+  });
+
+  it('signs and sends a permit only when asked to', async () => {
+    const { payment } = await contract.mintDeedNFT(params, { approval: 'permit', permitDeadline: 123n });
+
+    expect(signTypedData).toHaveBeenCalledWith(expect.objectContaining({
+      primaryType: 'Permit',
+      message: expect.objectContaining({ spender: fundManager, value: 100n, deadline: 123n })
+    }));
+    expect(payment.steps).toEqual([{ type: 'permit', hash: '0xpermit', amount: 100n, deadline: 123n }]);
+  });
+});
@@ -0,0 +1,188 @@
+import { type Address, type Log, type PublicClient, type WalletClient } from 'viem';
+import { SubdivideContract } from '../../src/contracts/SubdivideContract';
+import { type DeedNFTContract } from '../../src/contracts/DeedNFTContract';
+import { ErrorType } from '../../src/utils/errors';
+import { type UnitMintPlan } from '../../src/utils/bulkMint';
+
+const account = { address: '0x00000000000000000000000000000000000000a1', type: 'json-rpc' } as const;
+
+const subdivide = '0x0000000000000000000000000000000000000f20';
+const holder: Address = '0x00000000000000000000000000000000000000Bb';
+const admin: Address = '0x00000000000000000000000000000000000000c3';
+
+function log(eventName: string, blockNumber: bigint, args: Record<string, unknown>) {
+  return { eventName, blockNumber, logIndex: 0, args } as unknown as Log;
+}
+
+const tokenId = SubdivideContract.getUnitTokenId;
+
+describe('SubdivideContract', () => {
+  let logs: Log[];
+  let owners: Map<string, Address>;
+  let publicClient: PublicClient;
+  let reverted: Set<string>;
+  let writeContract: jest.Mock;
+  let contract: SubdivideContract;
+
+  beforeEach(() => {
+    logs = [];
+    owners = new Map();
+    reverted = new Set();
+
+    publicClient = {
+      getBlockNumber: jest.fn().mockResolvedValue(99n),
+      getBlock: jest.fn().mockResolvedValue({ gasLimit: 600_000n }),
+      readContract: jest.fn(async ({ functionName }) => {
+        if (functionName === 'getSubdivisionInfo') return { totalUnits: 10 };
+        throw new Error(`unexpected read ${functionName}`);
+      }),
+      // 20k base plus 50k per unit
+      estimateContractGas: jest.fn(async ({ args }) => 20_000n + 50_000n * BigInt(args[1].length)),
+      simulateContract: jest.fn(async ({ functionName, args }) => ({ request: { functionName, args } })),
+      waitForTransactionReceipt: jest.fn(async ({ hash }) => ({ status: reverted.has(hash) ? 'reverted' : 'success' })),
+      getContractEvents: jest.fn(async ({ eventName, args }) =>
+        logs.filter(entry => {
+          const { eventName: name, args: logArgs } = entry as unknown as { eventName: string; args: Record<string, unknown> };
+          return name === eventName && Object.entries(args).every(([field, value]) =>
+            String(logArgs[field]).toLowerCase() === String(value).toLowerCase()
+          );
+        })
+      ),
+      // Burned and unminted units revert
+      multicall: jest.fn(async ({ contracts }) =>
+        contracts.map(({ args }: { args: [bigint, bigint] }) => {
+          const owner = owners.get(`${args[0]}:${args[1]}`);
+          return owner
+            ? { status: 'success', result: owner }
+            : { status: 'failure', error: new Error('execution reverted: unit does not exist') };
+        })
+      )
+    } as unknown as PublicClient;
+
+    // Mints land on chain unless the test marks the transaction as reverted
+    writeContract = jest.fn(async ({ args: [deedId, unitIds, recipients] }) => {
+      const hash = `0x${writeContract.mock.calls.length}`;
+      if (!reverted.has(hash)) {
+        unitIds.forEach((unitId: bigint, i: number) => owners.set(`${deedId}:${unitId}`, recipients[i]));
+      }
+      return hash;
+    });
+    const walletClient = { account, writeContract } as unknown as WalletClient;
+    contract = new SubdivideContract(publicClient, walletClient, subdivide, {} as DeedNFTContract, {
+      retry: { read: { maxAttempts: 1 }, events: { maxAttempts: 1 } }
+    });
+  });
+
+  describe('getUnitsOf', () => {
+    it('replays mints and transfers and drops units burned by someone else', async () => {
+      logs = [
+        log('UnitMinted', 10n, { deedId: 1n, unitId: 1n, recipient: holder }),
+        log('UnitMinted', 10n, { deedId: 1n, unitId: 2n, recipient: holder }),
+        log('UnitMinted', 11n, { deedId: 2n, unitId: 5n, recipient: holder }),
+        log('TransferBatch', 20n, { from: holder, to: admin, ids: [tokenId(1n, 2n)] }),
+        log('TransferSingle', 21n, { from: admin, to: holder, id: tokenId(3n, 1n) }),
+        // Burned by the collection admin: UnitBurned names the admin as burner
+        log('UnitBurned', 30n, { deedId: 2n, unitId: 5n, burner: admin })
+      ];
+      owners.set('1:1', holder.toLowerCase() as Address);
+      owners.set('1:2', admin);
+      owners.set('3:1', holder);
+
+      await expect(contract.getUnitsOf(holder)).resolves.toEqual([
+        { deedId: 1n, unitId: 1n },
+        { deedId: 3n, unitId: 1n }
+      ]);
+    });
+
+    it('fails instead of dropping units when the owner check cannot be made', async () => {
+      logs = [log('UnitMinted', 10n, { deedId: 1n, unitId: 1n, recipient: holder })];
+      (publicClient.multicall as jest.Mock).mockRejectedValue(new Error('fetch failed'));
+
+      await expect(contract.getUnitsOf(holder)).rejects.toMatchObject({
+        message: `Failed to load units held by ${holder}`,
+        code: ErrorType.NETWORK_ERROR,
+        retryable: true
+      });
+    });
+
+    it('keeps the code of a failed event read', async () => {
+      (publicClient.getContractEvents as jest.Mock).mockRejectedValue(new Error('invalid params: unknown filter field'));
+
+      await expect(contract.getUnitsOf(holder)).rejects.toMatchObject({
+        code: ErrorType.UNKNOWN_ERROR,
+        retryable: false
+      });
+    });
+  });
+
+  describe('bulkMintUnits', () => {
+    const plan: UnitMintPlan = Array.from({ length: 10 }, (_, i) => ({ unitId: BigInt(i), recipient: holder }));
+    const batches = () => writeContract.mock.calls.map(([request]) => request.args[1]);
+
+    it('shrinks batches in proportion to how far the gas estimate overshoots', async () => {
+      const result = await contract.bulkMintUnits(1n, plan, { maxGasPerBatch: 300_000n });
+
+      // 10 units estimate at 520k; 10 * 300k / 520k rounds down to 5
+      expect(batches().map(ids => ids.length)).toEqual([5, 5]);
+      expect(result.minted).toEqual(plan.map(entry => entry.unitId));
+      expect(result.transactions).toEqual(['0x1', '0x2']);
+    });
+
+    it('halves batches whose estimate fails and keeps the working size', async () => {
+      (publicClient.estimateContractGas as jest.Mock).mockImplementation(async ({ args }) => {
+        if (args[1].length > 3) throw new Error('exceeds block gas limit');
+        return 100_000n;
+      });
+
+      await contract.bulkMintUnits(1n, plan, { maxBatchSize: 8 });
+
+      // 8 fails, 4 fails, 2 fits and is kept for the rest of the plan
+      expect(batches().map(ids => ids.length)).toEqual([2, 2, 2, 2, 2]);
+      expect(publicClient.getBlock).toHaveBeenCalled();
+    });
+
+    it('rethrows transient estimate failures instead of shrinking the batch', async () => {
+      (publicClient.estimateContractGas as jest.Mock).mockRejectedValue(new Error('fetch failed'));
+
+      await expect(contract.bulkMintUnits(1n, plan, { maxBatchSize: 8 })).rejects.toMatchObject({
+        code: ErrorType.NETWORK_ERROR,
+        retryable: true
+      });
+      expect(publicClient.estimateContractGas).toHaveBeenCalledTimes(1);
+      expect(writeContract).not.toHaveBeenCalled();
+    });
+
+    it('fails when a single unit exceeds the gas ceiling', async () => {
+      await expect(contract.bulkMintUnits(1n, plan, { maxGasPerBatch: 60_000n })).rejects.toMatchObject({
+        code: ErrorType.TRANSACTION_ERROR
+      });
+      expect(writeContract).not.toHaveBeenCalled();
+    });
+
+    it('resumes an interrupted run by skipping units that already have an owner', async () => {
+      reverted.add('0x2');
+      const first = await contract.bulkMintUnits(1n, plan, { maxBatchSize: 4 }).catch(e => e);
+
+      expect(first).toMatchObject({ code: ErrorType.TRANSACTION_FAILED });
+      expect(first.details.result.minted).toEqual([0n, 1n, 2n, 3n]);
+
+      const progress: [number, number, number][] = [];
+      const result = await contract.bulkMintUnits(1n, plan, {
+        maxBatchSize: 4,
+        onProgress: ({ minted, skipped, total }) => progress.push([minted, skipped, total])
+      });
+
+      expect(result.skipped).toEqual([0n, 1n, 2n, 3n]);
+      expect(result.minted).toEqual([4n, 5n, 6n, 7n, 8n, 9n]);
+      expect(batches().slice(2)).toEqual([[4n, 5n, 6n, 7n], [8n, 9n]]);
+      expect(progress).toEqual([[4, 4, 10], [6, 4, 10]]);
+    });
+
+    it('rejects plans with units outside the subdivision before sending', async () => {
+      await expect(
+        contract.bulkMintUnits(1n, [...plan, { unitId: 10n, recipient: holder }])
+      ).rejects.toThrow('outside subdivision 1');
+      expect(writeContract).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,10 @@
+// Resolves ESM-only packages (exports with just an `import` condition),
+// which jest's CommonJS resolution cannot find; jest.config.js compiles
+// them to CommonJS
+module.exports = (path, options) => {
+  try {
+    return options.defaultResolver(path, options)
+  } catch (error) {
+    return options.defaultResolver(path, { ...options, conditions: ['import', 'node', 'default'] })
+  }
+}
@@ -0,0 +1,94 @@
+import { type PublicClient, type WalletClient } from 'viem';
+import { ProtocolSDK, type SDKConfig } from '../../src/ProtocolSDK';
+import { type SignerAdapter } from '../../src/utils/signers';
+import { ErrorType } from '../../src/utils/errors';
+
+// AppKit needs a browser and is never reached here
+jest.mock('@reown/appkit', () => ({ createAppKit: jest.fn() }));
+jest.mock('@reown/appkit-adapter-wagmi', () => ({ WagmiAdapter: jest.fn() }));
+
+const account = { address: '0x00000000000000000000000000000000000000a1', type: 'json-rpc' } as const;
+const validator = '0x00000000000000000000000000000000000000b1';
+
+describe('ProtocolSDK read-only mode', () => {
+  let publicClient: PublicClient;
+  let walletClient: WalletClient;
+  let config: SDKConfig;
+
+  beforeEach(() => {
+    publicClient = {
+      transport: { subscribe: jest.fn(() => () => undefined) },
+      readContract: jest.fn().mockResolvedValue(3n),
+      simulateContract: jest.fn(async ({ functionName, args }) => ({ request: { functionName, args } })),
+      getFeeHistory: jest.fn().mockResolvedValue({ baseFeePerGas: [10n], reward: [[1n, 1n, 1n]] })
+    } as unknown as PublicClient;
+    walletClient = { account, writeContract: jest.fn().mockResolvedValue('0xabc') } as unknown as WalletClient;
+    config = {
+      publicClient,
+      readOnly: true,
+      retry: { read: { maxAttempts: 1 } },
+      network: {
+        name: 'Testnet',
+        chainId: 31337,
+        rpcUrl: 'http://localhost:8545',
+        contracts: {
+          deedNFT: '0x00000000000000000000000000000000000000d1',
+          subdivide: '0x00000000000000000000000000000000000000d2',
+          fractionalize: '0x00000000000000000000000000000000000000d3',
+          validatorRegistry: '0x00000000000000000000000000000000000000d4',
+          fundManager: '0x00000000000000000000000000000000000000d5'
+        }
+      }
+    };
+  });
+
+  it('reads without a wallet and refuses to send', async () => {
+    const sdk = await ProtocolSDK.create(config);
+
+    expect(sdk.isReadOnly()).toBe(true);
+    await expect(sdk.deedNFT.totalSupply()).resolves.toBe(3n);
+    await expect(sdk.validatorRegistry.updateValidatorStatus(validator, true)).rejects.toMatchObject({
+      code: ErrorType.WALLET_NOT_CONNECTED
+    });
+    sdk.destroy();
+  });
+
+  it('sends once a wallet is attached and stops again when it is detached', async () => {
+    const sdk = await ProtocolSDK.create(config);
+
+    sdk.attachWallet(walletClient);
+    expect(sdk.isReadOnly()).toBe(false);
+    await expect(sdk.validatorRegistry.updateValidatorStatus(validator, true)).resolves.toMatchObject({ hash: '0xabc' });
+    expect(walletClient.writeContract).toHaveBeenCalledWith(expect.objectContaining({
+      functionName: 'updateValidatorStatus',
+      args: [validator, true]
+    }));
+
+    sdk.detachWallet();
+    expect(sdk.isReadOnly()).toBe(true);
+    await expect(sdk.validatorRegistry.updateValidatorStatus(validator, false)).rejects.toMatchObject({
+      code: ErrorType.WALLET_NOT_CONNECTED
+    });
+    await expect(sdk.deedNFT.totalSupply()).resolves.toBe(3n);
+    expect(walletClient.writeContract).toHaveBeenCalledTimes(1);
+    sdk.destroy();
+  });
+
+  it('connects the configured signer unless created read-only', async () => {
+    const signer: SignerAdapter = {
+      type: 'test',
+      connect: jest.fn().mockResolvedValue(walletClient),
+      disconnect: jest.fn()
+    };
+
+    const readOnly = await ProtocolSDK.create({ ...config, walletConfig: { signer } });
+    expect(signer.connect).not.toHaveBeenCalled();
+
+    const connected = await ProtocolSDK.create({ ...config, readOnly: false, walletConfig: { signer } });
+    expect(signer.connect).toHaveBeenCalledTimes(1);
+    expect(connected.isReadOnly()).toBe(false);
+
+    readOnly.destroy();
+    connected.destroy();
+  });
+});
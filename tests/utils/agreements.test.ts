@@ -0,0 +1,117 @@
+import { type Address } from 'viem';
+import { CID } from 'multiformats/cid';
+import { sha256 } from 'multiformats/hashes/sha2';
+import * as raw from 'multiformats/codecs/raw';
+import * as dagPb from '@ipld/dag-pb';
+import { UnixFS } from 'ipfs-unixfs';
+import { AgreementService, parseAgreementCid, verifyContent } from '../../src/utils/agreements';
+import { IPFSClient } from '../../src/utils/ipfs';
+import { type StorageBackend } from '../../src/utils/storage';
+import { ErrorType, ProtocolError } from '../../src/utils/errors';
+import { type ValidatorContract } from '../../src/contracts/ValidatorContract';
+
+const validator: Address = '0x00000000000000000000000000000000000000a1';
+const agreement = new TextEncoder().encode('Operating agreement v1');
+
+async function rawCid(bytes: Uint8Array): Promise<CID> {
+  return CID.create(1, raw.code, await sha256.digest(bytes));
+}
+
+describe('AgreementService', () => {
+  let blocks: Map<string, Uint8Array>;
+  let get: jest.Mock;
+  let names: Record<string, string>;
+  let ipfs: IPFSClient;
+  let service: AgreementService;
+
+  beforeEach(() => {
+    blocks = new Map();
+    get = jest.fn(async (cid: string) => {
+      const bytes = blocks.get(cid);
+      if (!bytes) throw new Error('fetch failed');
+      return bytes;
+    });
+    const backend = { type: 'memory', get, add: jest.fn(), pin: jest.fn(), unpin: jest.fn() } as StorageBackend;
+    ipfs = new IPFSClient({ backend, retry: { maxAttempts: 2, initialDelay: 1 } });
+
+    names = {};
+    const contract = {
+      operatingAgreementName: jest.fn(async (uri: string) => names[uri] ?? ''),
+      defaultOperatingAgreement: jest.fn(async () => 'ipfs://default')
+    } as unknown as ValidatorContract;
+    service = new AgreementService(ipfs, () => contract);
+  });
+
+  it('parses CIDs from ipfs URIs, gateway URLs and bare CIDs', async () => {
+    const cid = (await rawCid(agreement)).toString();
+
+    expect(parseAgreementCid(`ipfs://${cid}`)?.toString()).toBe(cid);
+    expect(parseAgreementCid(`https://gateway.example/ipfs/${cid}/agreement.pdf`)?.toString()).toBe(cid);
+    expect(parseAgreementCid(cid)?.toString()).toBe(cid);
+    expect(parseAgreementCid('https://example.com/agreement.pdf')).toBeNull();
+  });
+
+  it('verifies raw and single-block UnixFS documents against their CID', async () => {
+    const block = dagPb.encode({ Data: new UnixFS({ type: 'file', data: agreement }).marshal(), Links: [] });
+    const fileCid = CID.create(1, dagPb.code, await sha256.digest(block));
+
+    await expect(verifyContent(await rawCid(agreement), agreement)).resolves.toBe(true);
+    await expect(verifyContent(fileCid, agreement)).resolves.toBe(true);
+    await expect(verifyContent(fileCid, new TextEncoder().encode('tampered'))).resolves.toBe(false);
+  });
+
+  it('fetches through the IPFS client, retrying and caching by CID', async () => {
+    const cid = await rawCid(agreement);
+    blocks.set(cid.toString(), agreement);
+    get.mockRejectedValueOnce(new Error('fetch failed'));
+
+    const document = await service.resolve(`ipfs://${cid}`);
+    await service.resolve(`https://gateway.example/ipfs/${cid}`);
+
+    expect(document).toEqual({
+      uri: `ipfs://${cid}`,
+      cid: cid.toString(),
+      content: 'Operating agreement v1',
+      verified: true
+    });
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects a document that does not match its CID and retries it later', async () => {
+    const cid = await rawCid(agreement);
+    blocks.set(cid.toString(), new TextEncoder().encode('tampered'));
+
+    const error: unknown = await service.resolve(`ipfs://${cid}`).catch(e => e);
+    expect(error).toBeInstanceOf(ProtocolError);
+    expect((error as ProtocolError).code).toBe(ErrorType.IPFS_ERROR);
+    expect((error as ProtocolError).message).toContain('does not match its CID');
+
+    blocks.set(cid.toString(), agreement);
+    await expect(service.resolve(`ipfs://${cid}`)).resolves.toMatchObject({ verified: true });
+  });
+
+  it('refuses to fetch once the IPFS client is disposed', async () => {
+    const cid = await rawCid(agreement);
+    blocks.set(cid.toString(), agreement);
+    await ipfs.dispose();
+
+    const error: unknown = await service.resolve(`ipfs://${cid}`).catch(e => e);
+
+    expect((error as ProtocolError).cause).toMatchObject({ code: ErrorType.CLIENT_ERROR });
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it('lists the agreements a validator recognizes and warns about others', async () => {
+    names = { 'ipfs://default': 'Standard LLC', 'ipfs://custom': 'Custom' };
+
+    await expect(service.getCatalog(validator, ['ipfs://custom', 'ipfs://unknown'])).resolves.toEqual([
+      { uri: 'ipfs://default', name: 'Standard LLC', isDefault: true },
+      { uri: 'ipfs://custom', name: 'Custom', isDefault: false }
+    ]);
+    await expect(service.checkAgreement(validator, 'ipfs://custom')).resolves.toBeNull();
+    await expect(service.checkAgreement(validator, 'ipfs://unknown')).resolves.toMatchObject({
+      type: 'unrecognized-agreement',
+      validator
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { parseMintPlanCSV, parseMintPlanJSON } from '../../src/utils/bulkMint';
+
+const alice = '0x00000000000000000000000000000000000000a1';
+const bob = '0x00000000000000000000000000000000000000b2';
+
+describe('mint plan parsing', () => {
+  it('reads CSV rows and skips the header', () => {
+    const plan = parseMintPlanCSV(`unitId,recipient\n1,${alice}\n\n2, ${bob}\n`);
+
+    expect(plan.map(entry => entry.unitId)).toEqual([1n, 2n]);
+    expect(plan[1].recipient.toLowerCase()).toBe(bob);
+  });
+
+  it('reads JSON arrays and unit -> recipient objects', () => {
+    const fromArray = parseMintPlanJSON(JSON.stringify([{ unitId: 7, recipient: alice }]));
+    const fromObject = parseMintPlanJSON(JSON.stringify({ 7: alice }));
+
+    expect(fromArray).toEqual(fromObject);
+    expect(fromArray[0].unitId).toBe(7n);
+  });
+
+  it('rejects duplicate units and bad addresses', () => {
+    expect(() => parseMintPlanCSV(`1,${alice}\n1,${bob}`)).toThrow('more than once');
+    expect(() => parseMintPlanCSV('1,0x1234')).toThrow('Invalid plan entry');
+  });
+
+  it('rejects blank unit ids instead of reading them as unit 0', () => {
+    expect(() => parseMintPlanCSV(`unitId,recipient\n1,${alice}\n ,${bob}`)).toThrow('Invalid unit id');
+    expect(() => parseMintPlanCSV(`,${alice}`)).toThrow('Invalid unit id');
+    expect(() => parseMintPlanJSON(JSON.stringify([{ unitId: '', recipient: alice }]))).toThrow('Invalid unit id');
+    expect(() => parseMintPlanJSON(JSON.stringify([{ recipient: alice }]))).toThrow('Invalid unit id');
+  });
+
+  it('reports the line of a bad CSV row in the file', () => {
+    expect(() => parseMintPlanCSV(`unitId,recipient\n1,${alice}\n2,0x1234`)).toThrow('in CSV row 3');
+    expect(() => parseMintPlanCSV(`unitId,recipient\n\n1,${alice}\n\nx,${bob}`)).toThrow('in CSV row 5');
+    expect(() => parseMintPlanCSV(`1,0x1234`)).toThrow('in CSV row 1');
+  });
+});
@@ -0,0 +1,137 @@
+import { type PublicClient, type Log, zeroAddress } from 'viem';
+import { DeedHistoryReader } from '../../src/utils/deedHistory';
+import { EventManager } from '../../src/utils/events';
+import type { ContractAddresses } from '../../src/config/types';
+import { ErrorType } from '../../src/utils/errors';
+
+const contracts: ContractAddresses = {
+  deedNFT: '0x00000000000000000000000000000000000000d1',
+  subdivide: '0x00000000000000000000000000000000000000d2',
+  fractionalize: '0x00000000000000000000000000000000000000d3',
+  validatorRegistry: '0x00000000000000000000000000000000000000d4',
+  fundManager: '0x00000000000000000000000000000000000000d5'
+};
+
+const owner = '0x00000000000000000000000000000000000000a1';
+const buyer = '0x00000000000000000000000000000000000000a2';
+const validator = '0x00000000000000000000000000000000000000A3';
+const token = '0x00000000000000000000000000000000000000a4';
+const mintTx = `0x${'01'.repeat(32)}` as const;
+
+function log(blockNumber: bigint, logIndex: number, args: Record<string, unknown>, transactionHash = `0x${blockNumber.toString(16).padStart(64, '0')}`) {
+  return { blockNumber, logIndex, transactionHash, args } as unknown as Log;
+}
+
+describe('DeedHistoryReader', () => {
+  let logs: Record<string, Log[]>;
+  let getPastEvents: jest.Mock;
+  let client: PublicClient;
+
+  beforeEach(() => {
+    logs = {
+      DeedCreated: [log(10n, 0, { deedId: 1n, owner, assetType: 0n }, mintTx)],
+      DeedMinted: [log(10n, 2, { deedId: 1n, minter: owner, token, serviceFee: 5n }, mintTx)],
+      Transfer: [
+        log(10n, 1, { from: zeroAddress, to: owner, tokenId: 1n }, mintTx),
+        log(40n, 0, { from: owner, to: buyer, tokenId: 1n })
+      ],
+      DeedValidated: [log(20n, 3, { deedId: 1n, validator })],
+      ValidatorRegistered: [log(5n, 0, { validator: validator.toLowerCase(), name: 'Acme Title' })],
+      FractionCreated: [
+        log(30n, 0, { fractionId: 7n, assetType: 0n, originalTokenId: 1n }),
+        // Another deed's fraction, and a subdivision unit with the same token id
+        log(30n, 1, { fractionId: 8n, assetType: 0n, originalTokenId: 2n }),
+        log(31n, 0, { fractionId: 9n, assetType: 1n, originalTokenId: 1n })
+      ],
+      SharesMinted: [log(30n, 2, { fractionId: 7n, to: owner, amount: 100n })],
+      AssetUnlocked: [log(20n, 1, { fractionId: 7n })]
+    };
+    getPastEvents = jest.fn(async (_address, _abi, eventName: string) => logs[eventName] ?? []);
+    client = {
+      getBlockNumber: jest.fn().mockResolvedValue(99n),
+      getBlock: jest.fn(async ({ blockNumber }: { blockNumber: bigint }) => ({ timestamp: blockNumber * 12n })),
+      getTransaction: jest.fn()
+    } as unknown as PublicClient;
+  });
+
+  function reader(options = {}) {
+    return new DeedHistoryReader({ getPastEvents } as unknown as EventManager, client, contracts, options);
+  }
+
+  it('merges the contract logs into one history ordered by block and log index', async () => {
+    const history = await reader().getDeedHistory(1n);
+
+    expect(history.map(entry => [entry.type, entry.blockNumber, entry.logIndex])).toEqual([
+      ['Minted', 10n, 0],
+      ['AssetUnlocked', 20n, 1],
+      ['Validated', 20n, 3],
+      ['FractionCreated', 30n, 0],
+      ['SharesMinted', 30n, 2],
+      ['Transferred', 40n, 0]
+    ]);
+    expect(history[0]).toMatchObject({
+      owner,
+      minter: owner,
+      serviceFee: { token, amount: 5n },
+      timestamp: 120n
+    });
+    expect(history[2]).toMatchObject({ validator, validatorName: 'Acme Title' });
+    expect(client.getTransaction).not.toHaveBeenCalled();
+  });
+
+  it('filters the deed and its fractions by indexed arguments', async () => {
+    await reader().getDeedHistory(1n);
+
+    const argsOf = (eventName: string) =>
+      getPastEvents.mock.calls.find(call => call[2] === eventName)?.[5];
+    expect(argsOf('DeedCreated')).toEqual({ deedId: 1n });
+    expect(argsOf('Transfer')).toEqual({ tokenId: 1n });
+    expect(argsOf('SharesMinted')).toEqual({ fractionId: [7n] });
+    expect(argsOf('ValidatorRegistered')).toEqual({ validator: [validator] });
+  });
+
+  it('splits ranges the provider rejects', async () => {
+    getPastEvents.mockImplementation(async (_address, _abi, eventName: string, fromBlock: bigint, toBlock: bigint) => {
+      if (toBlock - fromBlock >= 50n) throw new Error('block range is too large');
+      return (logs[eventName] ?? []).filter(entry => entry.blockNumber! >= fromBlock && entry.blockNumber! <= toBlock);
+    });
+
+    const history = await reader({ initialChunkSize: 100n }).getDeedHistory(1n);
+
+    expect(history.map(entry => entry.type)).toEqual([
+      'Minted',
+      'AssetUnlocked',
+      'Validated',
+      'FractionCreated',
+      'SharesMinted',
+      'Transferred'
+    ]);
+    const transferRanges = getPastEvents.mock.calls
+      .filter(call => call[2] === 'Transfer')
+      .map(call => [call[3], call[4]]);
+    expect(transferRanges).toEqual([[0n, 99n], [0n, 49n], [50n, 99n]]);
+  });
+
+  it('keeps the code of the failure behind a history read', async () => {
+    getPastEvents.mockRejectedValue(new Error('block range is too large'));
+
+    const error: unknown = await reader({ initialChunkSize: 100n, minChunkSize: 50n }).getDeedHistory(1n).catch(e => e);
+
+    expect(error).toMatchObject({
+      message: 'Failed to load history for deed 1',
+      code: ErrorType.UNKNOWN_ERROR,
+      retryable: false
+    });
+  });
+
+  it('falls back to the transaction sender when no mint fee was paid', async () => {
+    logs.DeedMinted = [];
+    (client.getTransaction as jest.Mock).mockResolvedValue({ from: buyer });
+
+    const history = await reader().getDeedHistory(1n, { fromBlock: 10n, toBlock: 50n });
+
+    expect(history[0]).toMatchObject({ type: 'Minted', minter: buyer, serviceFee: undefined });
+    expect(client.getTransaction).toHaveBeenCalledWith({ hash: mintTx });
+    expect(client.getBlockNumber).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,104 @@
+import { type PublicClient } from 'viem';
+import { ErrorHandler, type RecoveryEvent } from '../../src/utils/errorHandler';
+import { FeeManager } from '../../src/utils/fees';
+import { ErrorType } from '../../src/utils/errors';
+import { DEFAULT_RETRY_POLICIES } from '../../src/utils/retry';
+import { ValidatorRegistryContract } from '../../src/contracts/ValidatorRegistryContract';
+
+const account = '0x00000000000000000000000000000000000000a1';
+
+describe('ErrorHandler recovery', () => {
+  let client: PublicClient;
+  let events: RecoveryEvent[];
+
+  beforeEach(() => {
+    events = [];
+    client = {
+      getTransactionCount: jest.fn().mockResolvedValue(7),
+      getGasPrice: jest.fn().mockResolvedValue(100n),
+      estimateFeesPerGas: jest.fn().mockRejectedValue(new Error('Chain does not support EIP-1559 fees'))
+    } as unknown as PublicClient;
+  });
+
+  it('leaves failures alone unless recovery is enabled', async () => {
+    const handler = new ErrorHandler(client);
+    const send = jest.fn().mockRejectedValue(new Error('nonce too low'));
+
+    await expect(handler.sendWithRecovery('mintAsset', account, send)).rejects.toThrow('nonce too low');
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-syncs the nonce and bumps fees, reporting every step', async () => {
+    const fees = { getFees: jest.fn().mockResolvedValue({ maxFeePerGas: 10n, maxPriorityFeePerGas: 1n }) } as unknown as FeeManager;
+    const handler = new ErrorHandler(client, { recovery: true, onRecovery: event => events.push(event) }, fees);
+    const send = jest.fn()
+      .mockRejectedValueOnce(new Error('nonce too low'))
+      .mockRejectedValueOnce(new Error('replacement transaction underpriced'))
+      .mockResolvedValue('0xabc');
+
+    await expect(
+      handler.sendWithRecovery('mintAsset', account, send, { maxFeePerGas: 20n, maxPriorityFeePerGas: 2n })
+    ).resolves.toBe('0xabc');
+
+    expect(send).toHaveBeenLastCalledWith({ nonce: 7, maxFeePerGas: 24n, maxPriorityFeePerGas: 2n });
+    expect(events.map(event => event.action)).toEqual(['resync-nonce', 'bump-fees']);
+  });
+
+  it('prices the bump through the fee manager on legacy chains', async () => {
+    const fees = new FeeManager(client, { legacy: true });
+    const handler = new ErrorHandler(client, { recovery: true }, fees);
+    const send = jest.fn()
+      .mockRejectedValueOnce(new Error('transaction underpriced'))
+      .mockResolvedValue('0xabc');
+
+    await expect(handler.sendWithRecovery('mintAsset', account, send)).resolves.toBe('0xabc');
+
+    // The standard legacy preset is 120, raised by the 1.2 bump factor
+    expect(send).toHaveBeenLastCalledWith({ nonce: undefined, gasPrice: 144n });
+    expect(client.estimateFeesPerGas).not.toHaveBeenCalled();
+  });
+
+  it('classifies errors with the recovery that repairs them, without touching the chain', async () => {
+    const handler = new ErrorHandler(client);
+
+    await expect(handler.handleError(new Error('nonce too low'))).resolves.toMatchObject({
+      code: ErrorType.TRANSACTION_FAILED,
+      details: { recovery: 'resync-nonce' }
+    });
+    await expect(handler.handleError(new Error('replacement transaction underpriced'))).resolves.toMatchObject({
+      details: { recovery: 'bump-fees' }
+    });
+    await expect(handler.handleError(new Error('fetch failed'))).resolves.toMatchObject({ retryable: true });
+    expect(client.getTransactionCount).not.toHaveBeenCalled();
+    expect(client.getGasPrice).not.toHaveBeenCalled();
+  });
+
+  it('retries retryable reads and gives up after maxAttempts', async () => {
+    const handler = new ErrorHandler(client, {
+      recovery: { maxAttempts: 2, readDelay: 1 },
+      onRecovery: event => events.push(event)
+    });
+    const call = jest.fn().mockRejectedValue(new Error('fetch failed'));
+
+    await expect(handler.read('getValidators', call)).rejects.toThrow('fetch failed');
+    expect(call).toHaveBeenCalledTimes(2);
+    expect(events.map(event => event.action)).toEqual(['retry-read', 'give-up']);
+  });
+
+  it('retries contract reads under the same read policy with recovery on or off', async () => {
+    const readContract = jest.fn().mockRejectedValue(new Error('fetch failed'));
+    const reader = { readContract } as unknown as PublicClient;
+    // Leaves maxAttempts to the default read policy
+    const retryPolicies = { read: { initialDelay: 1 } };
+    const registry = '0x0000000000000000000000000000000000000001';
+
+    for (const recovery of [false, { maxAttempts: 2, readDelay: 1 }]) {
+      readContract.mockClear();
+      const errorHandler = new ErrorHandler(reader, { recovery });
+      const contract = new ValidatorRegistryContract(reader, null, registry, { errorHandler, retry: retryPolicies });
+
+      await expect(contract.isValidatorActive(account)).rejects.toMatchObject({ code: ErrorType.NETWORK_ERROR });
+      expect(readContract).toHaveBeenCalledTimes(DEFAULT_RETRY_POLICIES.read.maxAttempts!);
+    }
+  });
+});
@@ -0,0 +1,86 @@
+import { ContractFunctionRevertedError, encodeAbiParameters, encodeErrorResult, type Abi, type Hex } from 'viem';
+import {
+  ContractErrorType,
+  ErrorType,
+  ProtocolError,
+  decodeContractError,
+  getErrorMessage,
+  setErrorMessages
+} from '../../src/utils/errors';
+import { StandardErrorsABI } from '../../src/abis';
+
+const caller = '0x00000000000000000000000000000000000000A1';
+
+const abi = [
+  { type: 'error', name: 'NotCollectionAdmin', inputs: [{ name: 'caller', type: 'address' }] }
+] as const satisfies Abi;
+
+function revert(data: Hex, contractAbi: Abi = abi) {
+  return new ContractFunctionRevertedError({ abi: contractAbi, data, functionName: 'mintShares' });
+}
+
+describe('decodeContractError', () => {
+  it('decodes custom errors from the contract ABI with named args', () => {
+    const error = decodeContractError(revert(encodeErrorResult({ abi, errorName: 'NotCollectionAdmin', args: [caller] })));
+
+    expect(error?.type).toBe(ContractErrorType.UNAUTHORIZED_ACCESS);
+    expect(error?.code).toBe(ErrorType.CONTRACT_ERROR);
+    expect(error?.details).toMatchObject({ errorName: 'NotCollectionAdmin', namedArgs: { caller } });
+  });
+
+  it('falls back to the standard OpenZeppelin errors', () => {
+    const data = encodeErrorResult({
+      abi: StandardErrorsABI,
+      errorName: 'ERC20InsufficientAllowance',
+      args: [caller, 1n, 5n]
+    });
+
+    const error = decodeContractError(revert(data));
+
+    expect(error?.type).toBe(ContractErrorType.INSUFFICIENT_ALLOWANCE);
+    expect(error?.details.namedArgs).toEqual({ spender: caller, allowance: 1n, needed: 5n });
+  });
+
+  it('classifies Error(string) and Panic(uint256)', () => {
+    const reason = `0x08c379a0${encodeAbiParameters([{ type: 'string' }], ['Max shares per wallet exceeded']).slice(2)}` as Hex;
+    const panic = `0x4e487b71${encodeAbiParameters([{ type: 'uint256' }], [0x11n]).slice(2)}` as Hex;
+
+    expect(decodeContractError(revert(reason))?.type).toBe(ContractErrorType.LIMIT_EXCEEDED);
+    expect(decodeContractError(revert(panic))).toMatchObject({
+      type: ContractErrorType.PANIC,
+      details: { panicCode: 0x11, reason: 'arithmetic overflow or underflow' }
+    });
+  });
+
+  it('leaves other failures to ProtocolError', () => {
+    expect(decodeContractError(new Error('socket hang up'))).toBeNull();
+    expect(ProtocolError.fromError(new Error('socket hang up')).code).toBe(ErrorType.NETWORK_ERROR);
+  });
+});
+
+describe('ProtocolError', () => {
+  afterEach(() => setErrorMessages(null));
+
+  it('keeps the cause chain and inherits retryability from it', () => {
+    const network = new ProtocolError('Failed to load deed', ErrorType.IPFS_ERROR, new Error('fetch failed'));
+    const reverted = new ProtocolError('Failed to list validators', ErrorType.NETWORK_ERROR, revert('0x'));
+
+    expect(network.cause).toBeInstanceOf(Error);
+    expect(network.retryable).toBe(true);
+    expect(reverted.retryable).toBe(false);
+  });
+
+  it('reads user messages from a replaceable catalog', () => {
+    const error = decodeContractError(revert(encodeErrorResult({ abi, errorName: 'NotCollectionAdmin', args: [caller] })));
+
+    expect(getErrorMessage(error)).toBe('This account is not allowed to do that');
+
+    setErrorMessages({
+      [ContractErrorType.UNAUTHORIZED_ACCESS]: e => `Keine Berechtigung (${(e as typeof error)?.details.errorName})`,
+      [ErrorType.NETWORK_ERROR]: 'Netzwerkfehler'
+    });
+
+    expect(error?.userMessage).toBe('Keine Berechtigung (NotCollectionAdmin)');
+    expect(getErrorMessage(new Error('socket hang up'))).toBe('Netzwerkfehler');
+  });
+});
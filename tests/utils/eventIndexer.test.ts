@@ -0,0 +1,138 @@
+import { type PublicClient } from 'viem';
+import { EventIndexer, MemoryCheckpointStore } from '../../src/utils/eventIndexer';
+import { EventManager } from '../../src/utils/events';
+import { DeedNFTABI } from '../../src/abis';
+import { ErrorType } from '../../src/utils/errors';
+
+const address = '0x0000000000000000000000000000000000000001';
+
+describe('EventIndexer', () => {
+  let getPastEvents: jest.Mock;
+  let events: EventManager;
+  const client = { getBlockNumber: jest.fn().mockResolvedValue(999n) } as unknown as PublicClient;
+
+  beforeEach(() => {
+    getPastEvents = jest.fn().mockResolvedValue([]);
+    events = { getPastEvents } as unknown as EventManager;
+  });
+
+  it('walks the range in chunks and saves a checkpoint', async () => {
+    const store = new MemoryCheckpointStore();
+    const indexer = new EventIndexer(events, client, { store, initialChunkSize: 100n });
+    const ranges: [bigint, bigint][] = [];
+
+    const last = await indexer.indexEvents({
+      address,
+      abi: DeedNFTABI,
+      eventName: 'Transfer',
+      fromBlock: 0n,
+      toBlock: 499n,
+      onLogs: (_logs, range) => {
+        ranges.push([range.fromBlock, range.toBlock]);
+      }
+    });
+
+    expect(last).toBe(499n);
+    expect(ranges).toEqual([
+      [0n, 99n],
+      [100n, 299n],
+      [300n, 499n]
+    ]);
+    await expect(indexer.getCheckpoint(address, 'Transfer')).resolves.toBe(499n);
+  });
+
+  it('halves the chunk when the provider rejects the range', async () => {
+    getPastEvents
+      .mockRejectedValueOnce(new Error('query returned more than 10000 results'))
+      .mockResolvedValue([]);
+    const indexer = new EventIndexer(events, client, { initialChunkSize: 100n });
+
+    await indexer.indexEvents({
+      address,
+      abi: DeedNFTABI,
+      eventName: 'Transfer',
+      fromBlock: 0n,
+      toBlock: 199n,
+      onLogs: () => undefined
+    });
+
+    expect(getPastEvents.mock.calls.map(call => [call[3], call[4]])).toEqual([
+      [0n, 99n],
+      [0n, 49n],
+      [50n, 149n],
+      [150n, 199n]
+    ]);
+  });
+
+  it('gives up without calling it a network failure once the minimum range is rejected', async () => {
+    getPastEvents.mockRejectedValue(new Error('block range is too large'));
+    const indexer = new EventIndexer(events, client, { initialChunkSize: 40n, minChunkSize: 10n });
+
+    const error: unknown = await indexer.indexEvents({
+      address,
+      abi: DeedNFTABI,
+      eventName: 'Transfer',
+      fromBlock: 0n,
+      toBlock: 99n,
+      onLogs: () => undefined
+    }).catch(e => e);
+
+    expect(error).toMatchObject({
+      message: 'Provider rejected the minimum block range of 10 for Transfer',
+      code: ErrorType.UNKNOWN_ERROR,
+      retryable: false
+    });
+    expect(getPastEvents.mock.calls.map(call => [call[3], call[4]])).toEqual([[0n, 39n], [0n, 19n], [0n, 9n]]);
+  });
+
+  it('leaves rate limits to the retry policy', async () => {
+    getPastEvents.mockRejectedValue(new Error('429 Too Many Requests: more than 10 requests per second, limit exceeded'));
+    const indexer = new EventIndexer(events, client, { initialChunkSize: 100n });
+
+    await expect(
+      indexer.indexEvents({
+        address,
+        abi: DeedNFTABI,
+        eventName: 'Transfer',
+        fromBlock: 0n,
+        toBlock: 199n,
+        onLogs: () => undefined
+      })
+    ).rejects.toThrow('429');
+    expect(getPastEvents).toHaveBeenCalledTimes(1);
+  });
+
+  it('resumes from the stored checkpoint', async () => {
+    const store = new MemoryCheckpointStore();
+    await store.set(EventIndexer.checkpointKey(address, 'Transfer'), 199n);
+    const indexer = new EventIndexer(events, client, { store });
+
+    await indexer.indexEvents({
+      address,
+      abi: DeedNFTABI,
+      eventName: 'Transfer',
+      fromBlock: 0n,
+      toBlock: 299n,
+      onLogs: () => undefined
+    });
+
+    expect(getPastEvents).toHaveBeenCalledTimes(1);
+    expect(getPastEvents.mock.calls[0][3]).toBe(200n);
+  });
+
+  it('rethrows errors that are not about range size', async () => {
+    getPastEvents.mockRejectedValue(new Error('execution reverted'));
+    const indexer = new EventIndexer(events, client);
+
+    await expect(
+      indexer.indexEvents({
+        address,
+        abi: DeedNFTABI,
+        eventName: 'Transfer',
+        fromBlock: 0n,
+        toBlock: 10n,
+        onLogs: () => undefined
+      })
+    ).rejects.toThrow('execution reverted');
+  });
+});
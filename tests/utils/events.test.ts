@@ -0,0 +1,94 @@
+import {
+  type Abi,
+  type Log,
+  type PublicClient,
+  encodeAbiParameters,
+  encodeEventTopics,
+  parseEventLogs
+} from 'viem';
+import { EventManager } from '../../src/utils/events';
+import { ErrorType, ProtocolError } from '../../src/utils/errors';
+import { DeedNFTABI } from '../../src/abis';
+import type { ContractAddresses } from '../../src/config/types';
+
+const address = '0x0000000000000000000000000000000000000001';
+const owner = '0x00000000000000000000000000000000000000A1';
+
+const contracts: ContractAddresses = {
+  deedNFT: address,
+  subdivide: '0x00000000000000000000000000000000000000d2',
+  fractionalize: '0x00000000000000000000000000000000000000d3',
+  validatorRegistry: '0x00000000000000000000000000000000000000d4',
+  fundManager: '0x00000000000000000000000000000000000000d5'
+};
+
+describe('EventManager', () => {
+  let getContractEvents: jest.Mock;
+  let events: EventManager;
+
+  beforeEach(() => {
+    getContractEvents = jest.fn();
+    const client = { getContractEvents } as unknown as PublicClient;
+    events = new EventManager(client, undefined, { maxAttempts: 2, initialDelay: 1 });
+  });
+
+  it('keeps the classification of failed log reads', async () => {
+    getContractEvents.mockRejectedValue(new Error('fetch failed'));
+
+    const error: unknown = await events.getPastEvents(address, DeedNFTABI, 'Transfer', 0n, 99n).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProtocolError);
+    expect(error).toMatchObject({ code: ErrorType.NETWORK_ERROR, message: 'fetch failed', retryable: true });
+    expect(getContractEvents).toHaveBeenCalledTimes(2);
+
+    getContractEvents.mockRejectedValue(new Error('query returned more than 10000 results'));
+    await expect(
+      events.getPastEvents(address, DeedNFTABI, 'Transfer', 0n, 99n)
+    ).rejects.toThrow('query returned more than 10000 results');
+  });
+
+  it('passes decoded event args to on() listeners in ABI order, then the log', () => {
+    let deliver!: (logs: Log[]) => void;
+    const unwatch = jest.fn();
+    // Decodes raw logs the way viem's watcher does before calling onLogs
+    const watchContractEvent = jest.fn(({ abi, eventName, onLogs }: { abi: Abi; eventName: string; onLogs: (logs: Log[]) => void }) => {
+      deliver = raw => onLogs(parseEventLogs({ abi, eventName, logs: raw }) as Log[]);
+      return unwatch;
+    });
+    const manager = new EventManager({ watchContractEvent } as unknown as PublicClient, contracts);
+    const listener = jest.fn();
+
+    const off = manager.on('deedNFT', 'DeedCreated', listener);
+    const raw = {
+      address,
+      topics: encodeEventTopics({ abi: DeedNFTABI, eventName: 'DeedCreated', args: { deedId: 7n, owner } }),
+      data: encodeAbiParameters([{ type: 'uint256' }], [2n]),
+      blockNumber: 10n,
+      blockHash: `0x${'00'.repeat(32)}`,
+      logIndex: 0,
+      transactionHash: `0x${'01'.repeat(32)}`,
+      transactionIndex: 0,
+      removed: false
+    } as unknown as Log;
+    deliver([raw]);
+
+    expect(watchContractEvent).toHaveBeenCalledWith(expect.objectContaining({
+      address,
+      eventName: 'DeedCreated',
+      strict: true
+    }));
+    expect(listener).toHaveBeenCalledTimes(1);
+    const [deedId, eventOwner, assetType, log] = listener.mock.calls[0];
+    expect([deedId, eventOwner, assetType]).toEqual([7n, owner, 2n]);
+    expect(log).toMatchObject({ eventName: 'DeedCreated', blockNumber: 10n });
+
+    off();
+    expect(unwatch).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects events that are not in the contract ABI', () => {
+    const manager = new EventManager({} as PublicClient, contracts);
+
+    expect(() => manager.on('deedNFT', 'Unknown' as never, jest.fn())).toThrow('Event Unknown is not in the deedNFT ABI');
+  });
+});
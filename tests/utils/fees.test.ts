@@ -0,0 +1,50 @@
+import { type PublicClient } from 'viem';
+import { FeeManager } from '../../src/utils/fees';
+
+const gwei = 1_000_000_000n;
+
+describe('FeeManager', () => {
+  let client: PublicClient;
+
+  beforeEach(() => {
+    client = {
+      getFeeHistory: jest.fn().mockResolvedValue({
+        baseFeePerGas: [10n * gwei, 10n * gwei],
+        reward: [[1n * gwei, 2n * gwei, 5n * gwei]]
+      }),
+      getGasPrice: jest.fn().mockResolvedValue(20n * gwei)
+    } as unknown as PublicClient;
+  });
+
+  it('builds presets from fee history percentiles', async () => {
+    const fees = new FeeManager(client);
+
+    await expect(fees.getFees({ speed: 'slow' })).resolves.toEqual({
+      maxFeePerGas: 13n * gwei,
+      maxPriorityFeePerGas: 1n * gwei
+    });
+    await expect(fees.getFees({ speed: 'fast' })).resolves.toEqual({
+      maxFeePerGas: 25n * gwei,
+      maxPriorityFeePerGas: 5n * gwei
+    });
+  });
+
+  it('caps presets and strategies by the network policy', async () => {
+    const fees = new FeeManager(client, {
+      maxFeePerGas: 15n * gwei,
+      strategy: () => ({ maxFeePerGas: 40n * gwei, maxPriorityFeePerGas: 20n * gwei })
+    });
+
+    await expect(fees.getFees()).resolves.toEqual({
+      maxFeePerGas: 15n * gwei,
+      maxPriorityFeePerGas: 15n * gwei
+    });
+  });
+
+  it('lets per-call values win over the network overrides', async () => {
+    const fees = new FeeManager(client, { legacy: true, overrides: { speed: 'fast' } });
+
+    await expect(fees.getFees()).resolves.toEqual({ gasPrice: 28_800_000_000n });
+    await expect(fees.getFees({ gasPrice: 7n })).resolves.toEqual({ gasPrice: 7n });
+  });
+});
@@ -0,0 +1,57 @@
+import { type PublicClient } from 'viem';
+import { MulticallBatcher } from '../../src/utils/multicallBatcher';
+import { DeedNFTABI } from '../../src/abis';
+
+const address = '0x0000000000000000000000000000000000000001';
+
+function call(functionName: string, args: unknown[]) {
+  return { address, abi: DeedNFTABI, functionName, args } as const;
+}
+
+describe('MulticallBatcher', () => {
+  let multicall: jest.Mock;
+  let readContract: jest.Mock;
+  let client: PublicClient;
+
+  beforeEach(() => {
+    multicall = jest.fn(async ({ contracts }: { contracts: { args: unknown[] }[] }) =>
+      contracts.map(({ args }) =>
+        args[0] === 2n
+          ? { status: 'failure', error: new Error('reverted') }
+          : { status: 'success', result: `owner-${args[0]}` }
+      )
+    );
+    readContract = jest.fn().mockResolvedValue('single');
+    client = { multicall, readContract } as unknown as PublicClient;
+  });
+
+  it('combines calls from the same tick into one multicall', async () => {
+    const batcher = new MulticallBatcher(client);
+
+    const results = await Promise.allSettled([
+      batcher.call(call('ownerOf', [1n])),
+      batcher.call(call('ownerOf', [2n])),
+      batcher.call(call('ownerOf', [3n]))
+    ]);
+
+    expect(multicall).toHaveBeenCalledTimes(1);
+    expect(results[0]).toEqual({ status: 'fulfilled', value: 'owner-1' });
+    expect(results[1].status).toBe('rejected');
+    expect(results[2]).toEqual({ status: 'fulfilled', value: 'owner-3' });
+  });
+
+  it('splits batches at the configured size', async () => {
+    const batcher = new MulticallBatcher(client, { batchSize: 2 });
+
+    await Promise.all([1n, 3n, 4n, 5n].map(id => batcher.call(call('ownerOf', [id]))));
+
+    expect(multicall).toHaveBeenCalledTimes(2);
+  });
+
+  it('sends a lone call as a plain read', async () => {
+    const batcher = new MulticallBatcher(client);
+
+    await expect(batcher.call(call('totalSupply', []))).resolves.toBe('single');
+    expect(multicall).not.toHaveBeenCalled();
+  });
+});
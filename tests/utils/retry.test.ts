@@ -0,0 +1,83 @@
+import { retry } from '../../src/utils/retry';
+import { ErrorType, ProtocolError } from '../../src/utils/errors';
+
+describe('retry', () => {
+  it('retries transient failures until they succeed', async () => {
+    const operation = jest.fn()
+      .mockRejectedValueOnce(new Error('fetch failed'))
+      .mockResolvedValue('ok');
+    const onRetry = jest.fn();
+
+    await expect(retry(operation, { initialDelay: 1, onRetry })).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1 }));
+  });
+
+  it('fails fast on errors the classifier rejects', async () => {
+    const rejected = new Error('User rejected the request');
+    const operation = jest.fn().mockRejectedValue(rejected);
+
+    await expect(retry(operation, { initialDelay: 1 })).rejects.toBe(rejected);
+    await expect(retry(operation, { initialDelay: 1, isRetryable: () => true, maxAttempts: 3 })).rejects.toBe(rejected);
+    expect(operation).toHaveBeenCalledTimes(4);
+  });
+
+  it('stops when the signal aborts or the deadline would pass', async () => {
+    const controller = new AbortController();
+    const operation = jest.fn().mockImplementation(async () => {
+      controller.abort();
+      throw new Error('fetch failed');
+    });
+
+    await expect(retry(operation, { signal: controller.signal })).rejects.toMatchObject({
+      code: ErrorType.ABORTED,
+      retryable: false
+    });
+    expect(operation).toHaveBeenCalledTimes(1);
+
+    const slow = jest.fn().mockRejectedValue(new Error('fetch failed'));
+    const error = await retry(slow, { jitter: 'none', initialDelay: 1000, deadline: 500 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProtocolError);
+    expect((error as ProtocolError).code).toBe(ErrorType.TIMEOUT);
+    expect(slow).toHaveBeenCalledTimes(1);
+  });
+
+  it('bounds a hanging attempt by the deadline and aborts its signal', async () => {
+    let attemptSignal: AbortSignal | undefined;
+    const hanging = jest.fn((signal?: AbortSignal) => {
+      attemptSignal = signal;
+      return new Promise<never>(() => undefined);
+    });
+
+    const error = await retry(hanging, { deadline: 50 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProtocolError);
+    expect((error as ProtocolError).code).toBe(ErrorType.TIMEOUT);
+    expect(hanging).toHaveBeenCalledTimes(1);
+    expect(attemptSignal?.aborted).toBe(true);
+  });
+
+  it('passes the caller signal through alongside the deadline', async () => {
+    const controller = new AbortController();
+    const operation = jest.fn((signal?: AbortSignal) => new Promise<never>((_, reject) => {
+      signal?.addEventListener('abort', () => reject(signal.reason));
+    }));
+
+    const pending = retry(operation, { deadline: 10000, signal: controller.signal }).catch(e => e);
+    controller.abort();
+
+    expect(await pending).toMatchObject({ code: ErrorType.ABORTED });
+  });
+
+  it('abandons an attempt that ignores its signal when the caller aborts', async () => {
+    const controller = new AbortController();
+    const operation = jest.fn(() => new Promise<never>(() => undefined));
+
+    const pending = retry(operation, { signal: controller.signal }).catch(e => e);
+    controller.abort();
+
+    expect(await pending).toMatchObject({ code: ErrorType.ABORTED, retryable: false });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,138 @@
+import { type EIP1193Provider, type WalletClient, createWalletClient, custom } from 'viem';
+import { privateKeyToAccount, mnemonicToAccount } from 'viem/accounts';
+import { sepolia } from 'viem/chains';
+import { createAppKit } from '@reown/appkit';
+import {
+  AppKitSignerAdapter,
+  LocalAccountSignerAdapter,
+  EIP1193SignerAdapter,
+  WalletClientSignerAdapter
+} from '../../src/utils/signers';
+import { WalletManager } from '../../src/utils/wallet';
+import { ErrorType } from '../../src/utils/errors';
+
+// AppKit needs a browser; the adapter only relies on these calls
+jest.mock('@reown/appkit', () => ({ createAppKit: jest.fn() }));
+jest.mock('@reown/appkit-adapter-wagmi', () => ({
+  WagmiAdapter: jest.fn().mockImplementation(options => ({ options }))
+}));
+
+const privateKey = `0x${'11'.repeat(32)}` as const;
+const mnemonic = 'test test test test test test test test test test test junk';
+const rpcUrl = 'https://rpc.example';
+
+function provider(accounts: string[]): EIP1193Provider {
+  return {
+    request: jest.fn(async ({ method }: { method: string }) => {
+      if (method === 'eth_requestAccounts') return accounts;
+      if (method === 'eth_chainId') return `0x${sepolia.id.toString(16)}`;
+      throw new Error(`unexpected ${method}`);
+    }),
+    on: jest.fn(),
+    removeListener: jest.fn()
+  } as unknown as EIP1193Provider;
+}
+
+describe('signer adapters', () => {
+  beforeEach(() => {
+    (createAppKit as jest.Mock).mockReset();
+  });
+
+  it('signs with a local private key or mnemonic account on the configured chain', async () => {
+    const fromKey = await new LocalAccountSignerAdapter({ privateKey, rpcUrl, chain: sepolia }).connect();
+    const fromMnemonic = await new LocalAccountSignerAdapter({ mnemonic, addressIndex: 1, rpcUrl, chain: sepolia }).connect();
+
+    expect(fromKey.account?.address).toBe(privateKeyToAccount(privateKey).address);
+    expect(fromKey.chain?.id).toBe(sepolia.id);
+    expect(fromMnemonic.account?.address).toBe(mnemonicToAccount(mnemonic, { addressIndex: 1 }).address);
+    expect(fromMnemonic.account?.type).toBe('local');
+  });
+
+  it('rejects a local account with a malformed RPC URL', async () => {
+    await expect(
+      new LocalAccountSignerAdapter({ privateKey, rpcUrl: 'rpc.example' }).connect()
+    ).rejects.toMatchObject({ code: ErrorType.INVALID_CONFIG });
+  });
+
+  it('connects an EIP-1193 provider with its first account', async () => {
+    const address = privateKeyToAccount(privateKey).address;
+    const injected = provider([address]);
+
+    const client = await new EIP1193SignerAdapter(injected, sepolia).connect();
+
+    expect(client.account).toMatchObject({ address, type: 'json-rpc' });
+    expect(client.chain?.id).toBe(sepolia.id);
+    expect(injected.request).toHaveBeenCalledWith(expect.objectContaining({ method: 'eth_requestAccounts' }));
+
+    await expect(new EIP1193SignerAdapter(provider([]), sepolia).connect()).rejects.toMatchObject({
+      code: ErrorType.WALLET_CONNECTION
+    });
+  });
+
+  it('wraps an existing wallet client as long as it has an account', async () => {
+    const walletClient = createWalletClient({
+      account: privateKeyToAccount(privateKey),
+      chain: sepolia,
+      transport: custom(provider([]))
+    });
+
+    await expect(new WalletClientSignerAdapter(walletClient).connect()).resolves.toBe(walletClient);
+    await expect(
+      new WalletClientSignerAdapter({ ...walletClient, account: undefined } as WalletClient).connect()
+    ).rejects.toMatchObject({ code: ErrorType.WALLET_CONNECTION });
+  });
+
+  describe('AppKit', () => {
+    let walletClient: WalletClient;
+    let appKit: { open: jest.Mock; getWalletInfo: jest.Mock; disconnect: jest.Mock };
+
+    beforeEach(() => {
+      walletClient = createWalletClient({ chain: sepolia, transport: custom(provider([])) });
+      appKit = {
+        open: jest.fn(),
+        getWalletInfo: jest.fn(async () => ({ client: walletClient })),
+        disconnect: jest.fn()
+      };
+      (createAppKit as jest.Mock).mockReturnValue(appKit);
+    });
+
+    it('is only created on the first connect and needs a project ID then', async () => {
+      const manager = new WalletManager({ fallbackRpcUrl: rpcUrl });
+      expect(manager.getSigner().type).toBe('appkit');
+      expect(createAppKit).not.toHaveBeenCalled();
+
+      await expect(manager.connect()).rejects.toMatchObject({ code: ErrorType.INVALID_CONFIG });
+      expect(createAppKit).not.toHaveBeenCalled();
+    });
+
+    it('connects through the modal on the configured chains', async () => {
+      const adapter = new AppKitSignerAdapter({
+        walletConnectProjectId: 'project',
+        fallbackRpcUrl: rpcUrl,
+        supportedChainIds: [1, sepolia.id]
+      });
+
+      await expect(adapter.connect()).resolves.toBe(walletClient);
+      await adapter.connect();
+
+      expect(createAppKit).toHaveBeenCalledTimes(1);
+      const [{ projectId, networks }] = (createAppKit as jest.Mock).mock.calls[0];
+      expect(projectId).toBe('project');
+      expect(networks.map((network: { id: number }) => network.id)).toEqual([1, sepolia.id]);
+      expect(networks[1].rpcUrls.default.http).toEqual([rpcUrl]);
+      expect(appKit.open).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it('hands the configured adapter to WalletManager', async () => {
+    const signer = new LocalAccountSignerAdapter({ privateKey, rpcUrl, chain: sepolia });
+    const manager = new WalletManager({ signer, fallbackRpcUrl: rpcUrl });
+
+    const { walletClient, publicClient } = await manager.connect();
+
+    expect(walletClient.account?.address).toBe(privateKeyToAccount(privateKey).address);
+    expect(walletClient.chain?.id).toBe(sepolia.id);
+    expect(publicClient).toBe(manager.getPublicClient());
+    expect(createAppKit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,196 @@
+import { createServer, type IncomingMessage, type Server } from 'http';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CID } from 'multiformats/cid';
+import { sha256 } from 'multiformats/hashes/sha2';
+import * as raw from 'multiformats/codecs/raw';
+import {
+  FilesystemStorageBackend,
+  GatewayStorageBackend,
+  PinningServiceBackend
+} from '../../src/utils/storage';
+
+// Helia's networking stack does not load under jest; this stand-in keeps
+// raw blocks in the blockstore it is given, which is what the filesystem
+// backend provides
+jest.mock('helia', () => ({
+  createHelia: async ({ blockstore }: { blockstore: unknown }) => ({
+    blockstore,
+    pins: { add: jest.fn(), rm: jest.fn() },
+    stop: jest.fn()
+  })
+}));
+jest.mock('@helia/unixfs', () => {
+  const { CID: MockCID } = jest.requireActual('multiformats/cid');
+  const { sha256: mockSha256 } = jest.requireActual('multiformats/hashes/sha2');
+  const mockRaw = jest.requireActual('multiformats/codecs/raw');
+  return {
+    unixfs: (helia: { blockstore: { put(cid: unknown, bytes: Uint8Array): Promise<unknown>; get(cid: unknown): Promise<Uint8Array> } }) => ({
+      addBytes: async (bytes: Uint8Array) => {
+        const cid = MockCID.createV1(mockRaw.code, await mockSha256.digest(bytes));
+        await helia.blockstore.put(cid, bytes);
+        return cid;
+      },
+      cat: async function* (cid: unknown) {
+        yield await helia.blockstore.get(cid);
+      }
+    })
+  };
+});
+
+async function rawCid(bytes: Uint8Array): Promise<string> {
+  return CID.createV1(raw.code, await sha256.digest(bytes)).toString();
+}
+
+function respondWith(bytes: Uint8Array) {
+  return jest.fn().mockResolvedValue(new Response(bytes));
+}
+
+describe('GatewayStorageBackend', () => {
+  const gateway = 'https://gateway.example.com/';
+
+  it('returns raw blocks that match their CID', async () => {
+    const content = new TextEncoder().encode('deed document');
+    const fetch = respondWith(content);
+    const backend = new GatewayStorageBackend({ gateway, fetch });
+    const cid = await rawCid(content);
+
+    await expect(backend.get(cid)).resolves.toEqual(content);
+    expect(fetch.mock.calls[0][0]).toBe(`https://gateway.example.com/ipfs/${cid}?format=raw`);
+  });
+
+  it('rejects content that does not match the CID', async () => {
+    const cid = await rawCid(new TextEncoder().encode('original'));
+    const backend = new GatewayStorageBackend({
+      gateway,
+      fetch: respondWith(new TextEncoder().encode('tampered'))
+    });
+
+    await expect(backend.get(cid)).rejects.toThrow('does not match CID');
+  });
+
+  it('refuses writes', async () => {
+    const backend = new GatewayStorageBackend({ gateway, fetch: jest.fn() });
+
+    await expect(backend.add()).rejects.toThrow('read-only');
+  });
+});
+
+// Minimal Kubo RPC stand-in: add stores the multipart file under its raw
+// CID, cat returns it, pin/add and pin/rm track pins
+function startPinningService(): Promise<{ server: Server; endpoint: string; pins: Set<string>; requests: IncomingMessage[] }> {
+  const blocks = new Map<string, Buffer>();
+  const pins = new Set<string>();
+  const requests: IncomingMessage[] = [];
+
+  const server = createServer(async (request, response) => {
+    requests.push(request);
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) chunks.push(chunk as Buffer);
+    const body = Buffer.concat(chunks);
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const arg = url.searchParams.get('arg') ?? '';
+
+    switch (url.pathname) {
+      case '/api/v0/add': {
+        const boundary = /boundary=(.+)$/.exec(request.headers['content-type'] ?? '')![1];
+        const start = body.indexOf('\r\n\r\n') + 4;
+        const content = body.subarray(start, body.indexOf(`\r\n--${boundary}`, start));
+        const cid = await rawCid(content);
+        blocks.set(cid, content);
+        pins.add(cid);
+        response.end(JSON.stringify({ Name: 'blob', Hash: cid, Size: String(content.length) }));
+        return;
+      }
+      case '/api/v0/cat':
+        if (!blocks.has(arg)) {
+          response.statusCode = 500;
+          response.end('block not found');
+          return;
+        }
+        response.end(blocks.get(arg));
+        return;
+      case '/api/v0/pin/add':
+        pins.add(arg);
+        response.end(JSON.stringify({ Pins: [arg] }));
+        return;
+      case '/api/v0/pin/rm':
+        pins.delete(arg);
+        response.end(JSON.stringify({ Pins: [arg] }));
+        return;
+      default:
+        response.statusCode = 404;
+        response.end();
+    }
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => {
+    const { port } = server.address() as { port: number };
+    resolve({ server, endpoint: `http://127.0.0.1:${port}/`, pins, requests });
+  }));
+}
+
+describe('PinningServiceBackend', () => {
+  let service: Awaited<ReturnType<typeof startPinningService>>;
+
+  beforeAll(async () => {
+    service = await startPinningService();
+  });
+
+  afterAll(() => new Promise(resolve => service.server.close(resolve)));
+
+  it('adds, reads, pins and unpins through the RPC API', async () => {
+    const backend = new PinningServiceBackend({
+      endpoint: service.endpoint,
+      headers: { Authorization: 'Bearer token' }
+    });
+    const content = new TextEncoder().encode('operating agreement');
+
+    const cid = await backend.add(content);
+
+    expect(cid).toBe(await rawCid(content));
+    await expect(backend.get(cid)).resolves.toEqual(content);
+    expect(service.pins.has(cid)).toBe(true);
+
+    await backend.unpin(cid);
+    expect(service.pins.has(cid)).toBe(false);
+    await backend.pin(cid);
+    expect(service.pins.has(cid)).toBe(true);
+
+    expect(service.requests.every(request => request.headers.authorization === 'Bearer token')).toBe(true);
+    expect(service.requests[0].url).toBe('/api/v0/add?cid-version=1&raw-leaves=true&pin=true');
+  });
+
+  it('reports failed requests with their status', async () => {
+    const backend = new PinningServiceBackend({ endpoint: service.endpoint });
+    const missing = await rawCid(new TextEncoder().encode('missing'));
+
+    await expect(backend.get(missing)).rejects.toMatchObject({
+      details: { status: 500, body: 'block not found' }
+    });
+  });
+});
+
+describe('FilesystemStorageBackend', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'protocol-sdk-'));
+  });
+
+  afterEach(() => rm(directory, { recursive: true, force: true }));
+
+  it('keeps content in the directory across backend instances', async () => {
+    const content = new TextEncoder().encode('deed document');
+    const writer = new FilesystemStorageBackend(directory);
+    const cid = await writer.add(content);
+    await writer.dispose();
+
+    expect(await readdir(directory)).not.toHaveLength(0);
+
+    const reader = new FilesystemStorageBackend(directory);
+    await expect(reader.get(cid)).resolves.toEqual(content);
+    await reader.dispose();
+  });
+});
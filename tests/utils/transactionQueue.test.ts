@@ -0,0 +1,169 @@
+import { type PublicClient, type WalletClient } from 'viem';
+import { TransactionQueue } from '../../src/utils/transactionQueue';
+import { MemoryQueueStore } from '../../src/utils/queueStore';
+import { ErrorType, ProtocolError } from '../../src/utils/errors';
+import { DeedNFTABI } from '../../src/abis';
+
+const account = { address: '0x00000000000000000000000000000000000000a1', type: 'json-rpc' } as const;
+const deedNFT = '0x0000000000000000000000000000000000000001';
+
+function approve(tokenId: bigint) {
+  return { address: deedNFT, abi: DeedNFTABI, functionName: 'approve', args: [account.address, tokenId] } as const;
+}
+
+function flush() {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+async function settle() {
+  for (let i = 0; i < 10; i++) await flush();
+}
+
+function hash(n: number) {
+  return `0x${n.toString(16).padStart(64, '0')}`;
+}
+
+describe('TransactionQueue', () => {
+  let sendTransaction: jest.Mock;
+  let waitForTransactionReceipt: jest.Mock;
+  let publicClient: PublicClient;
+  let walletClient: WalletClient;
+
+  beforeEach(() => {
+    let sent = 0;
+    sendTransaction = jest.fn(async () => hash(++sent));
+    // Receipts never arrive, so operations stay in flight
+    waitForTransactionReceipt = jest.fn(() => new Promise(() => undefined));
+    publicClient = {
+      getTransactionCount: jest.fn().mockResolvedValue(5),
+      getTransaction: jest.fn().mockRejectedValue(new Error('Transaction not found')),
+      waitForTransactionReceipt
+    } as unknown as PublicClient;
+    walletClient = { account, chain: undefined, sendTransaction } as unknown as WalletClient;
+  });
+
+  it('sends operations in order with consecutive nonces', async () => {
+    const queue = new TransactionQueue(publicClient, walletClient);
+
+    await queue.enqueue(approve(1n));
+    await queue.enqueue(approve(2n));
+    await flush();
+    await flush();
+
+    expect(sendTransaction.mock.calls.map(([request]) => request.nonce)).toEqual([5, 6]);
+    expect(queue.getOperations().map(operation => operation.status)).toEqual(['sent', 'sent']);
+  });
+
+  it('retries failed sends before giving up', async () => {
+    sendTransaction.mockRejectedValue(new Error('connection reset'));
+    const queue = new TransactionQueue(publicClient, walletClient, { maxRetries: 2, retryDelay: 0 });
+
+    const { id } = await queue.enqueue(approve(1n));
+    for (let i = 0; i < 10; i++) await flush();
+
+    expect(sendTransaction).toHaveBeenCalledTimes(3);
+    expect(queue.getOperation(id)).toMatchObject({ status: 'failed', retries: 2 });
+  });
+
+  it('restores saved operations into a new queue', async () => {
+    const store = new MemoryQueueStore();
+    const first = new TransactionQueue(publicClient, null, { store });
+    first.setWalletClient(walletClient);
+    await first.enqueue({ ...approve(1n), value: 10n });
+    await flush();
+    first.stop();
+
+    const second = new TransactionQueue(publicClient, null, { store });
+    await second.restore();
+
+    expect(second.getOperations()).toEqual(first.getOperations());
+    expect(second.getOperations()[0].value).toBe(10n);
+    expect(waitForTransactionReceipt).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps earlier reservations when a later send fails', async () => {
+    // The node has not counted the first transaction as pending yet
+    sendTransaction
+      .mockResolvedValueOnce(hash(1))
+      .mockRejectedValueOnce(new Error('connection reset'))
+      .mockResolvedValue(hash(2));
+    const queue = new TransactionQueue(publicClient, walletClient, { retryDelay: 0 });
+
+    await queue.enqueue(approve(1n));
+    await queue.enqueue(approve(2n));
+    await settle();
+
+    expect(sendTransaction.mock.calls.map(([request]) => request.nonce)).toEqual([5, 6, 6]);
+  });
+
+  it('resends a dropped transaction at its own nonce', async () => {
+    waitForTransactionReceipt
+      .mockRejectedValueOnce(new Error('Timed out while waiting for transaction'))
+      .mockImplementation(() => new Promise(() => undefined));
+    const queue = new TransactionQueue(publicClient, walletClient, { retryDelay: 0 });
+
+    const { id } = await queue.enqueue(approve(1n));
+    await queue.enqueue(approve(2n));
+    await settle();
+
+    expect(sendTransaction.mock.calls.map(([request]) => request.nonce)).toEqual([5, 6, 5]);
+    expect(queue.getOperation(id)).toMatchObject({
+      status: 'sent',
+      nonce: 5,
+      hash: hash(3),
+      retries: 1
+    });
+  });
+
+  it('fails an operation whose nonce was mined by another transaction', async () => {
+    waitForTransactionReceipt.mockRejectedValueOnce(new Error('Timed out while waiting for transaction'));
+    (publicClient.getTransactionCount as jest.Mock).mockImplementation(
+      async ({ blockTag }) => (blockTag === 'latest' ? 6 : 5)
+    );
+    const queue = new TransactionQueue(publicClient, walletClient);
+
+    const { id } = await queue.enqueue(approve(1n));
+    await settle();
+
+    expect(queue.getOperation(id)).toMatchObject({
+      status: 'failed',
+      error: 'Nonce 5 was used by another transaction'
+    });
+    expect(sendTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('follows sped-up replacements and fails cancelled operations', async () => {
+    waitForTransactionReceipt.mockImplementation(async ({ hash: sent, onReplaced }) => {
+      const reason = sent === hash(1) ? 'repriced' : 'cancelled';
+      const replacement = hash(sent === hash(1) ? 11 : 12);
+      onReplaced({ reason, transaction: { hash: replacement } });
+      return { status: 'success', transactionHash: replacement };
+    });
+    const queue = new TransactionQueue(publicClient, walletClient);
+
+    const sped = await queue.enqueue(approve(1n));
+    const cancelled = await queue.enqueue(approve(2n));
+    await settle();
+
+    expect(queue.getOperation(sped.id)).toMatchObject({ status: 'success', hash: hash(11) });
+    expect(queue.getOperation(cancelled.id)).toMatchObject({
+      status: 'failed',
+      hash: hash(12),
+      error: `Transaction was cancelled by ${hash(12)}`
+    });
+  });
+
+  it('reports a corrupt saved queue as a ProtocolError', async () => {
+    const store = new MemoryQueueStore();
+    await store.save('{"version":1,"operations":[');
+    const queue = new TransactionQueue(publicClient, null, { store });
+
+    const error: unknown = await queue.restore().catch(e => e);
+
+    expect(error).toBeInstanceOf(ProtocolError);
+    expect((error as ProtocolError).code).toBe(ErrorType.CLIENT_ERROR);
+
+    await store.save(JSON.stringify({ version: 1, operations: [] }));
+    await expect(queue.restore()).resolves.toBeUndefined();
+  });
+});
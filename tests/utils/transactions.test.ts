@@ -0,0 +1,154 @@
+import { type Hash, type PublicClient, type WalletClient } from 'viem';
+import { watchBlocks } from 'viem/actions';
+import { TransactionManager } from '../../src/utils/transactions';
+import { TransactionStatus } from '../../src/types/transactions';
+
+jest.mock('viem/actions', () => ({ watchBlocks: jest.fn() }));
+
+const sender = '0x00000000000000000000000000000000000000a1';
+const original: Hash = '0x01';
+
+function pendingTx(hash: Hash, overrides: Record<string, unknown> = {}) {
+  return {
+    hash,
+    from: sender,
+    nonce: 7,
+    to: '0x0000000000000000000000000000000000000c0c',
+    value: 0n,
+    input: '0xabcdef',
+    gas: 100_000n,
+    maxFeePerGas: 100n,
+    maxPriorityFeePerGas: 10n,
+    ...overrides
+  };
+}
+
+const flush = async () => {
+  for (let i = 0; i < 20; i++) await new Promise(resolve => setImmediate(resolve));
+};
+
+describe('TransactionManager', () => {
+  let pool: Map<Hash, ReturnType<typeof pendingTx>>;
+  let receipts: Map<Hash, { status: string; blockNumber: bigint }>;
+  let blocks: Map<bigint, ReturnType<typeof pendingTx>[]>;
+  let minedNonce: number;
+  let publicClient: PublicClient;
+  let sendTransaction: jest.Mock;
+  let manager: TransactionManager;
+  let onBlock: (block: { number: bigint }) => void;
+
+  const mineBlock = async (number: bigint) => {
+    onBlock({ number });
+    await flush();
+  };
+
+  beforeEach(() => {
+    pool = new Map([[original, pendingTx(original)]]);
+    receipts = new Map();
+    blocks = new Map();
+    minedNonce = 7;
+    (watchBlocks as jest.Mock).mockImplementation((_client, { onBlock: listener }) => {
+      onBlock = listener;
+      return jest.fn();
+    });
+    publicClient = {
+      getTransaction: jest.fn(async ({ hash }) => pool.get(hash) ?? null),
+      getTransactionReceipt: jest.fn(async ({ hash }) => receipts.get(hash) ?? null),
+      getTransactionCount: jest.fn(async () => minedNonce),
+      getBlock: jest.fn(async ({ blockNumber }) => ({ transactions: blocks.get(blockNumber) ?? [] })),
+      estimateFeesPerGas: jest.fn().mockResolvedValue({ maxFeePerGas: 50n, maxPriorityFeePerGas: 5n })
+    } as unknown as PublicClient;
+    sendTransaction = jest.fn();
+    const walletClient = { account: { address: sender, type: 'json-rpc' }, sendTransaction } as unknown as WalletClient;
+    manager = new TransactionManager(publicClient, walletClient);
+  });
+
+  // The original leaves the pool and `hash` is mined in `block`
+  const mine = (hash: Hash, block: bigint, tx = pendingTx(hash)) => {
+    pool.clear();
+    blocks.set(block, [tx]);
+    receipts.set(hash, { status: 'success', blockNumber: block });
+    minedNonce = 8;
+  };
+
+  it('follows a speed-up while the node only knows the replacement', async () => {
+    const onReplaced = jest.fn();
+    const { result } = manager.watchTransaction(original, { onReplaced }, { confirmations: 1, droppedAfterBlocks: 3 });
+    await mineBlock(10n);
+
+    sendTransaction.mockResolvedValue('0x02');
+    await expect(manager.speedUp(original)).resolves.toBe('0x02');
+    expect(sendTransaction).toHaveBeenCalledWith(expect.objectContaining({
+      nonce: 7,
+      data: '0xabcdef',
+      maxFeePerGas: 120n,
+      maxPriorityFeePerGas: 12n
+    }));
+
+    pool = new Map([['0x02', pendingTx('0x02', { maxFeePerGas: 120n })]]);
+    for (let block = 11n; block <= 15n; block++) await mineBlock(block);
+    mine('0x02', 16n);
+    await mineBlock(16n);
+
+    await expect(result).resolves.toMatchObject({ status: TransactionStatus.SUCCESS, replacedBy: '0x02' });
+    expect(onReplaced).toHaveBeenCalledWith('0x02', original, 'repriced');
+  });
+
+  it('reports a cancelled transaction', async () => {
+    const { result } = manager.watchTransaction(original, {}, { confirmations: 1 });
+    await mineBlock(10n);
+
+    sendTransaction.mockResolvedValue('0x03');
+    await manager.cancel(original);
+    expect(sendTransaction).toHaveBeenCalledWith(expect.objectContaining({ to: sender, value: 0n, nonce: 7 }));
+
+    mine('0x03', 11n);
+    await mineBlock(11n);
+
+    await expect(result).resolves.toMatchObject({ status: TransactionStatus.CANCELLED, replacedBy: '0x03' });
+  });
+
+  it('finds a foreign replacement scanning only blocks since the last pending check', async () => {
+    const { result } = manager.watchTransaction(original, {}, { confirmations: 1 });
+    for (let block = 10n; block <= 20n; block++) await mineBlock(block);
+
+    // The nonce is used before the node serves the block holding it
+    pool.clear();
+    minedNonce = 8;
+    await mineBlock(21n);
+    mine('0x04', 22n, pendingTx('0x04', { input: '0x1234' }));
+    await mineBlock(22n);
+
+    await expect(result).resolves.toMatchObject({ status: TransactionStatus.REPLACED, replacedBy: '0x04' });
+    expect((publicClient.getBlock as jest.Mock).mock.calls.map(([{ blockNumber }]) => blockNumber)).toEqual([21n, 20n, 22n]);
+  });
+
+  it('reports a drop once the nonce stays unused', async () => {
+    const onDropped = jest.fn();
+    const { result } = manager.watchTransaction(original, { onDropped }, { droppedAfterBlocks: 2 });
+    await mineBlock(10n);
+
+    pool.clear();
+    await mineBlock(11n);
+    expect(onDropped).not.toHaveBeenCalled();
+    await mineBlock(12n);
+
+    await expect(result).resolves.toEqual({ status: TransactionStatus.DROPPED, hash: original });
+    expect(onDropped).toHaveBeenCalledWith(original);
+  });
+
+  it('notifies every watcher of the same hash', async () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    manager.watchTransaction(original, { onPending: first });
+    const { result } = manager.watchTransaction(original, { onPending: second }, { confirmations: 1 });
+
+    await mineBlock(10n);
+    expect(first).toHaveBeenCalledWith(original);
+    expect(second).toHaveBeenCalledWith(original);
+
+    mine(original, 11n);
+    await mineBlock(11n);
+    await expect(result).resolves.toMatchObject({ status: TransactionStatus.SUCCESS });
+  });
+});
@@ -0,0 +1,263 @@
+import { type Address, type Log, type PublicClient, ContractFunctionRevertedError } from 'viem';
+import { ValidatorManager } from '../../src/utils/validators';
+import { type EventManager } from '../../src/utils/events';
+import { type DeedNFTContract } from '../../src/contracts/DeedNFTContract';
+import { type ValidatorRegistryContract } from '../../src/contracts/ValidatorRegistryContract';
+import { ErrorType } from '../../src/utils/errors';
+import { AssetType, type ValidatorInfo } from '../../src/types';
+
+const deedNFTAddress = '0x00000000000000000000000000000000000000d1';
+const validator: Address = '0x00000000000000000000000000000000000000A1';
+const other: Address = '0x00000000000000000000000000000000000000a2';
+const owner: Address = '0x00000000000000000000000000000000000000b1';
+
+function log(eventName: string, blockNumber: bigint, args: Record<string, unknown>) {
+  return { eventName, blockNumber, logIndex: 0, transactionHash: `0x${blockNumber}`, args } as unknown as Log;
+}
+
+describe('ValidatorManager', () => {
+  let logs: Log[];
+  let validated: Set<bigint>;
+  let getPastEvents: jest.Mock;
+  let publicClient: PublicClient;
+  let deedNFT: DeedNFTContract;
+  let registry: ValidatorRegistryContract;
+
+  beforeEach(() => {
+    logs = [];
+    validated = new Set();
+
+    getPastEvents = jest.fn(async (_address, _abi, eventName: string, fromBlock: bigint, toBlock: bigint) =>
+      logs.filter(entry =>
+        (entry as { eventName?: string }).eventName === eventName &&
+        entry.blockNumber! >= fromBlock &&
+        entry.blockNumber! <= toBlock
+      )
+    );
+    publicClient = {
+      getBlockNumber: jest.fn().mockResolvedValue(99n),
+      getBlock: jest.fn(async ({ blockNumber }: { blockNumber: bigint }) => ({ timestamp: blockNumber * 12n })),
+      // The validator contracts support land and estates; only the first
+      // one answers for its default agreement
+      readContract: jest.fn(async ({ address, functionName, args }) => {
+        if (functionName === 'supportsAssetType') return [0n, 2n].includes(args[0]);
+        if (functionName === 'defaultOperatingAgreement' && address.toLowerCase() === validator.toLowerCase()) return 'ipfs://standard';
+        if (functionName === 'operatingAgreementName') return 'Standard LLC';
+        throw new Error(`unexpected read ${functionName}`);
+      })
+    } as unknown as PublicClient;
+    deedNFT = {
+      getAddress: () => deedNFTAddress,
+      getDeedInfos: jest.fn(async (ids: bigint[]) =>
+        ids.map(tokenId => ({ tokenId, success: true, deedInfo: { isValidated: validated.has(tokenId) } }))
+      ),
+      ownerOf: jest.fn(async () => owner)
+    } as unknown as DeedNFTContract;
+    registry = {
+      isValidatorApproved: jest.fn(async () => true)
+    } as unknown as ValidatorRegistryContract;
+  });
+
+  function manager(events: Partial<EventManager> = {}) {
+    return new ValidatorManager(
+      publicClient,
+      null,
+      { getPastEvents, ...events } as unknown as EventManager,
+      deedNFT,
+      registry,
+      { retry: { read: { maxAttempts: 1 } } },
+      { initialChunkSize: 100n, minChunkSize: 10n }
+    );
+  }
+
+  describe('list', () => {
+    let registered: Record<number, string[]>;
+    let infos: Record<string, ValidatorInfo>;
+
+    beforeEach(() => {
+      registered = { [AssetType.Land]: [validator], [AssetType.Estate]: [validator.toLowerCase(), other] };
+      infos = {
+        [validator.toLowerCase()]: { isActive: true, supportedAssetTypes: [0, 2], name: 'Acme Title', description: '' },
+        [other]: { isActive: true, supportedAssetTypes: [2], name: 'Estates Inc', description: '' }
+      };
+      registry = {
+        getValidatorsForAssetType: jest.fn(async (assetType: AssetType) => registered[assetType] ?? []),
+        getValidatorInfo: jest.fn(async (address: string) => infos[address.toLowerCase()]),
+        getValidatorOwner: jest.fn(async () => owner),
+        // Deactivated in the registry even though its own info says active
+        isValidatorActive: jest.fn(async (address: string) => address !== other)
+      } as unknown as ValidatorRegistryContract;
+    });
+
+    it('merges the validators of every asset type when none is given', async () => {
+      const records = await manager().list();
+
+      expect(registry.getValidatorsForAssetType).toHaveBeenCalledTimes(4);
+      expect((registry.getValidatorsForAssetType as jest.Mock).mock.calls.map(call => call[0])).toEqual([
+        AssetType.Land,
+        AssetType.Vehicle,
+        AssetType.Estate,
+        AssetType.CommercialEquipment
+      ]);
+      expect(records.map(({ contract, ...record }) => ({ ...record, contract: contract.getAddress() }))).toEqual([
+        {
+          address: validator.toLowerCase(),
+          owner,
+          info: infos[validator.toLowerCase()],
+          isActive: true,
+          defaultOperatingAgreement: 'ipfs://standard',
+          defaultOperatingAgreementName: 'Standard LLC',
+          contract: validator.toLowerCase()
+        },
+        {
+          address: other,
+          owner,
+          info: infos[other],
+          isActive: false,
+          defaultOperatingAgreement: null,
+          defaultOperatingAgreementName: null,
+          contract: other
+        }
+      ]);
+    });
+
+    it('filters by asset type and activity', async () => {
+      infos[validator.toLowerCase()].isActive = false;
+
+      await expect(manager().list({ assetType: AssetType.Estate, activeOnly: true })).resolves.toEqual([]);
+      expect(registry.getValidatorsForAssetType).toHaveBeenCalledWith(AssetType.Estate);
+      expect(registry.getValidatorsForAssetType).toHaveBeenCalledTimes(1);
+
+      infos[validator.toLowerCase()].isActive = true;
+      const records = await manager().list({ assetType: AssetType.Land, activeOnly: true });
+      expect(records).toMatchObject([{
+        address: validator,
+        isActive: true,
+        defaultOperatingAgreement: 'ipfs://standard',
+        defaultOperatingAgreementName: 'Standard LLC'
+      }]);
+    });
+
+    it('keeps the code of a failed registry read', async () => {
+      (registry.getValidatorsForAssetType as jest.Mock).mockRejectedValue(
+        new ContractFunctionRevertedError({ abi: [], functionName: 'getValidatorsForAssetType', message: 'bad asset type' })
+      );
+
+      await expect(manager().list()).rejects.toMatchObject({
+        message: 'Failed to list validators',
+        code: ErrorType.CONTRACT_ERROR,
+        retryable: false
+      });
+    });
+  });
+
+  describe('getPendingValidations', () => {
+    it('splits ranges the provider rejects', async () => {
+      logs = [
+        log('DeedCreated', 10n, { deedId: 1n, owner, assetType: BigInt(AssetType.Land) }),
+        log('DeedCreated', 70n, { deedId: 2n, owner, assetType: BigInt(AssetType.Land) })
+      ];
+      const inRange = getPastEvents.getMockImplementation()!;
+      getPastEvents.mockImplementation(async (...args: [Address, unknown, string, bigint, bigint]) => {
+        if (args[4] - args[3] >= 50n) throw new Error('block range is too large');
+        return inRange(...args);
+      });
+
+      const pending = await manager().getPendingValidations(validator);
+
+      expect(pending.map(entry => entry.deedId)).toEqual([1n, 2n]);
+      expect(getPastEvents.mock.calls.filter(call => call[2] === 'DeedCreated').map(call => [call[3], call[4]]))
+        .toEqual([[0n, 99n], [0n, 49n], [50n, 99n]]);
+    });
+
+    it('lists unvalidated deeds of supported and approved asset types, oldest first', async () => {
+      logs = [
+        log('DeedCreated', 10n, { deedId: 1n, owner, assetType: BigInt(AssetType.Land) }),
+        log('DeedCreated', 11n, { deedId: 2n, owner, assetType: BigInt(AssetType.Land) }),
+        log('DeedCreated', 12n, { deedId: 3n, owner, assetType: BigInt(AssetType.Land) }),
+        log('DeedCreated', 13n, { deedId: 4n, owner, assetType: BigInt(AssetType.Vehicle) }),
+        log('DeedCreated', 14n, { deedId: 5n, owner, assetType: BigInt(AssetType.Estate) }),
+        log('DeedCreated', 15n, { deedId: 6n, owner, assetType: BigInt(AssetType.Land) }),
+        log('DeedValidated', 20n, { deedId: 1n, validator })
+      ];
+      // Validated before the scanned range, so only the chain knows
+      validated.add(2n);
+      (registry.isValidatorApproved as jest.Mock).mockImplementation(async (_, assetType) => assetType !== AssetType.Estate);
+      (deedNFT.ownerOf as jest.Mock).mockImplementation(async (deedId: bigint) => {
+        if (deedId === 6n) throw new Error('execution reverted: burned');
+        return owner;
+      });
+
+      const pending = await manager().getPendingValidations(validator);
+
+      expect(pending).toEqual([{
+        deedId: 3n,
+        assetType: AssetType.Land,
+        owner,
+        mintedAt: 144n,
+        blockNumber: 12n,
+        transactionHash: '0x12'
+      }]);
+    });
+  });
+
+  describe('watchPendingValidations', () => {
+    let listeners: Record<string, (...args: unknown[]) => void>;
+    let unsubscribed: string[];
+    let events: Partial<EventManager>;
+
+    beforeEach(() => {
+      listeners = {};
+      unsubscribed = [];
+      events = {
+        on: jest.fn((_contract, eventName: string, listener) => {
+          listeners[eventName] = listener;
+          return () => unsubscribed.push(eventName);
+        }) as unknown as EventManager['on']
+      };
+    });
+
+    const settle = () => new Promise(resolve => setImmediate(resolve));
+    const ids = (lists: { deedId: bigint }[][]) => lists.map(list => list.map(entry => entry.deedId));
+
+    it('emits the initial list and follows created and validated deeds', async () => {
+      logs = [log('DeedCreated', 10n, { deedId: 1n, owner, assetType: BigInt(AssetType.Land) })];
+      const lists: { deedId: bigint }[][] = [];
+
+      const unwatch = manager(events).watchPendingValidations(validator, list => lists.push(list));
+      await settle();
+      listeners.DeedCreated(2n, owner, BigInt(AssetType.Land), log('DeedCreated', 30n, {}));
+      listeners.DeedCreated(3n, owner, BigInt(AssetType.Vehicle), log('DeedCreated', 31n, {}));
+      await settle();
+      listeners.DeedValidated(1n, validator, log('DeedValidated', 32n, {}));
+      unwatch();
+
+      expect(ids(lists)).toEqual([[1n], [1n, 2n], [2n]]);
+      expect(unsubscribed).toEqual(['DeedCreated', 'DeedValidated']);
+    });
+
+    it('does not restore a deed validated while the initial list loads', async () => {
+      logs = [
+        log('DeedCreated', 10n, { deedId: 1n, owner, assetType: BigInt(AssetType.Land) }),
+        log('DeedCreated', 11n, { deedId: 2n, owner, assetType: BigInt(AssetType.Land) })
+      ];
+      let release!: () => void;
+      const loaded = new Promise<void>(resolve => (release = resolve));
+      const getDeedInfos = (deedNFT.getDeedInfos as jest.Mock).getMockImplementation()!;
+      (deedNFT.getDeedInfos as jest.Mock).mockImplementation(async (deedIds: bigint[]) => {
+        await loaded;
+        return getDeedInfos(deedIds);
+      });
+      const lists: { deedId: bigint }[][] = [];
+
+      manager(events).watchPendingValidations(validator, list => lists.push(list));
+      // Validated after the initial load has read the deed state
+      listeners.DeedValidated(1n, validator, log('DeedValidated', 40n, {}));
+      release();
+      await settle();
+      listeners.DeedValidated(2n, validator, log('DeedValidated', 41n, {}));
+
+      expect(ids(lists)).toEqual([[2n], []]);
+    });
+  });
+});